@@ -0,0 +1,152 @@
+import type { Env } from './index';
+
+// Admin credentials.
+//
+// The ADMIN_TOKEN secret grants global admin rights. A global admin can mint
+// owner tokens scoped to a single room, which may rename, rotate and moderate
+// that room only. Owner tokens look like "<tokenId>.<secret>"; D1 keeps a
+// SHA-256 hash of the secret, looked up by token ID and compared in constant time.
+
+export type AdminScope =
+  | { kind: 'global' }
+  | { kind: 'room'; roomId: string; tokenId: string; expiresAt: number | null };
+
+export interface OwnerTokenInfo {
+  tokenId: string;
+  roomId: string;
+  label: string | null;
+  createdAt: string;
+  expiresAt: number | null;
+  revokedAt: string | null;
+}
+
+export const MAX_OWNER_TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+const MAX_LABEL_LENGTH = 100;
+
+function randomHex(bytes: number): string {
+  const array = new Uint8Array(bytes);
+  crypto.getRandomValues(array);
+  return Array.from(array)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256(value: string): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// Compare digests rather than raw strings so the comparison is constant time
+// and doesn't leak the expected length
+async function tokensEqual(presented: string, expected: string): Promise<boolean> {
+  const [a, b] = await Promise.all([sha256(presented), sha256(expected)]);
+  return crypto.subtle.timingSafeEqual(a, b);
+}
+
+function rowToInfo(row: any): OwnerTokenInfo {
+  return {
+    tokenId: row.token_id,
+    roomId: row.room_id,
+    label: row.label,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+// Resolve the scope of the bearer token on an admin request, or null if it grants nothing
+export async function authenticateAdmin(request: Request, env: Env): Promise<AdminScope | null> {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+  const token = authHeader.slice(7);
+
+  if (env.ADMIN_TOKEN && (await tokensEqual(token, env.ADMIN_TOKEN))) {
+    return { kind: 'global' };
+  }
+
+  const match = token.match(/^([0-9a-f]{16})\.([0-9a-f]{64})$/);
+  if (!match) return null;
+  const [, tokenId, secret] = match;
+
+  const row = await env.DB.prepare(
+    'SELECT room_id, secret_hash, expires_at, revoked_at FROM owner_tokens WHERE token_id = ?'
+  )
+    .bind(tokenId)
+    .first();
+  if (!row || row.revoked_at) return null;
+  if (row.expires_at !== null && (row.expires_at as number) <= Date.now()) return null;
+
+  const presented = new Uint8Array(await sha256(secret));
+  if (!crypto.subtle.timingSafeEqual(presented, hexToBytes(row.secret_hash as string))) return null;
+
+  return {
+    kind: 'room',
+    roomId: row.room_id as string,
+    tokenId,
+    expiresAt: row.expires_at as number | null,
+  };
+}
+
+export function canManageRoom(scope: AdminScope, roomId: string): boolean {
+  return scope.kind === 'global' || scope.roomId === roomId;
+}
+
+export function isValidTokenLabel(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_LABEL_LENGTH;
+}
+
+// Mint an owner token for a room. The token is only ever returned here.
+export async function mintOwnerToken(
+  env: Env,
+  roomId: string,
+  options: { label?: string; ttlMs?: number }
+): Promise<{ token: string; info: OwnerTokenInfo }> {
+  const tokenId = randomHex(8);
+  const secret = randomHex(32);
+  const createdAt = new Date().toISOString();
+  const expiresAt = options.ttlMs ? Date.now() + options.ttlMs : null;
+  const label = options.label?.trim() || null;
+
+  await env.DB.prepare(
+    'INSERT INTO owner_tokens (token_id, secret_hash, room_id, label, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)'
+  )
+    .bind(tokenId, toHex(await sha256(secret)), roomId, label, createdAt, expiresAt)
+    .run();
+
+  return {
+    token: `${tokenId}.${secret}`,
+    info: { tokenId, roomId, label, createdAt, expiresAt, revokedAt: null },
+  };
+}
+
+export async function listOwnerTokens(env: Env, roomId: string): Promise<OwnerTokenInfo[]> {
+  const result = await env.DB.prepare(
+    'SELECT token_id, room_id, label, created_at, expires_at, revoked_at FROM owner_tokens WHERE room_id = ? ORDER BY created_at DESC'
+  )
+    .bind(roomId)
+    .all();
+  return (result.results || []).map(rowToInfo);
+}
+
+// Revoke a token and return its room, or null if it doesn't exist or was already revoked
+export async function revokeOwnerToken(env: Env, tokenId: string): Promise<string | null> {
+  const row = await env.DB.prepare(
+    'UPDATE owner_tokens SET revoked_at = ? WHERE token_id = ? AND revoked_at IS NULL RETURNING room_id'
+  )
+    .bind(new Date().toISOString(), tokenId)
+    .first();
+  return row ? (row.room_id as string) : null;
+}
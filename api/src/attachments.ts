@@ -0,0 +1,99 @@
+import type { Env } from './index';
+
+// Encrypted attachments in R2, stored under "<roomId>/<attachmentId>".
+//
+// Blobs are AES-GCM encrypted client-side with a per-file key that only travels
+// inside the encrypted message payload, so R2 holds opaque bytes. Senders also
+// list the attachment IDs a message uses next to its ciphertext, and the blobs
+// are deleted whenever that message is (see message_attachments).
+
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+// Matches the app's limit on photos per message
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+function attachmentKey(roomId: string, attachmentId: string): string {
+  return `${roomId}/${attachmentId}`;
+}
+
+function generateAttachmentId(): string {
+  const array = new Uint8Array(16);
+  crypto.getRandomValues(array);
+  return Array.from(array)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function isValidAttachmentId(value: string): boolean {
+  return /^[0-9a-f]{32}$/.test(value);
+}
+
+export function isValidAttachmentIds(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_ATTACHMENTS_PER_MESSAGE &&
+    value.every((id) => typeof id === 'string' && isValidAttachmentId(id))
+  );
+}
+
+export async function storeAttachment(env: Env, roomId: string, body: ArrayBuffer): Promise<string> {
+  const attachmentId = generateAttachmentId();
+  await env.ATTACHMENTS.put(attachmentKey(roomId, attachmentId), body, {
+    httpMetadata: { contentType: 'application/octet-stream' },
+  });
+  return attachmentId;
+}
+
+export async function getAttachment(env: Env, roomId: string, attachmentId: string): Promise<R2ObjectBody | null> {
+  return env.ATTACHMENTS.get(attachmentKey(roomId, attachmentId));
+}
+
+// Statements recording the attachments a message references, to batch with storing it
+export function linkMessageAttachments(
+  db: D1Database,
+  roomId: string,
+  msgId: string,
+  attachmentIds: string[]
+): D1PreparedStatement[] {
+  return attachmentIds.map((attachmentId) =>
+    db
+      .prepare(
+        'INSERT INTO message_attachments (room_id, attachment_id, msg_id) VALUES (?, ?, ?) ON CONFLICT (room_id, attachment_id) DO NOTHING'
+      )
+      .bind(roomId, attachmentId, msgId)
+  );
+}
+
+// Delete the attachments of messages about to be deleted. Runs before the messages
+// go, so if R2 fails they stay and the whole deletion is retried later.
+export async function deleteMessageAttachments(
+  env: Pick<Env, 'DB' | 'ATTACHMENTS'>,
+  roomId: string,
+  msgIds: string[]
+): Promise<void> {
+  const linked = await env.DB.prepare(
+    'SELECT attachment_id FROM message_attachments WHERE room_id = ? AND msg_id IN (SELECT value FROM json_each(?))'
+  )
+    .bind(roomId, JSON.stringify(msgIds))
+    .all();
+  const attachmentIds = ((linked.results || []) as { attachment_id: string }[]).map((row) => row.attachment_id);
+  if (attachmentIds.length === 0) return;
+
+  await env.ATTACHMENTS.delete(attachmentIds.map((attachmentId) => attachmentKey(roomId, attachmentId)));
+  await env.DB.prepare(
+    'DELETE FROM message_attachments WHERE room_id = ? AND msg_id IN (SELECT value FROM json_each(?))'
+  )
+    .bind(roomId, JSON.stringify(msgIds))
+    .run();
+}
+
+// Remove every attachment of a room, a page of keys at a time
+export async function deleteRoomAttachments(env: Env, roomId: string): Promise<void> {
+  let cursor: string | undefined;
+  do {
+    const listed = await env.ATTACHMENTS.list({ prefix: `${roomId}/`, cursor });
+    if (listed.objects.length > 0) {
+      await env.ATTACHMENTS.delete(listed.objects.map((object) => object.key));
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+}
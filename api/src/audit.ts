@@ -0,0 +1,151 @@
+import type { Env } from './index';
+import type { AdminScope } from './admin-auth';
+
+// Append-only audit log of admin actions, in D1. Summaries describe what changed
+// (versions, flags, counts) and must never include secrets or plaintext content.
+
+export type AuditAction =
+  | 'room.create'
+  | 'room.update'
+  | 'room.rotate'
+  | 'room.delete'
+  | 'token.create'
+  | 'token.revoke'
+  | 'invite.create'
+  | 'invite.revoke'
+  | 'message.remove'
+  | 'key.ban'
+  | 'key.unban'
+  | 'claim.release'
+  | 'claim.reassign';
+
+export interface AuditEntry {
+  auditId: number;
+  createdAt: string;
+  actor: string;
+  ip: string | null;
+  action: string;
+  roomId: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditFilters {
+  roomId?: string;
+  action?: string;
+  actor?: string;
+  // Only entries created at or after / before these ISO times
+  since?: string;
+  until?: string;
+  // Cursor: only entries with a smaller audit ID (the previous page's nextBefore)
+  beforeId?: number;
+  limit: number;
+}
+
+export const DEFAULT_AUDIT_LIMIT = 50;
+export const MAX_AUDIT_LIMIT = 200;
+
+const ISO_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// Normalize a since/until filter to the form created_at is stored in, so they
+// compare as strings. Returns null for anything but an ISO 8601 date or time.
+export function parseAuditTime(value: string): string | null {
+  if (!ISO_TIME.test(value)) return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+}
+
+export function actorOf(scope: AdminScope): string {
+  return scope.kind === 'global' ? 'global' : `owner:${scope.tokenId}`;
+}
+
+// Record an action after it succeeded. Failures are logged, with the entry that
+// went missing, rather than undoing an action that already happened.
+export async function recordAudit(
+  env: Env,
+  request: Request,
+  scope: AdminScope,
+  entry: { action: AuditAction; roomId: string | null; before?: unknown; after?: unknown }
+): Promise<void> {
+  try {
+    await env.DB.prepare(
+      'INSERT INTO admin_audit (created_at, actor, ip, action, room_id, before_json, after_json) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    )
+      .bind(
+        new Date().toISOString(),
+        actorOf(scope),
+        request.headers.get('CF-Connecting-IP'),
+        entry.action,
+        entry.roomId,
+        entry.before === undefined ? null : JSON.stringify(entry.before),
+        entry.after === undefined ? null : JSON.stringify(entry.after)
+      )
+      .run();
+  } catch (err) {
+    console.error(
+      `Failed to record audit entry ${entry.action} by ${actorOf(scope)} for room ${entry.roomId ?? '-'}:`,
+      err
+    );
+  }
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+// Newest first. Returns the cursor for the next page, or null on the last one.
+export async function listAudit(
+  env: Env,
+  filters: AuditFilters
+): Promise<{ entries: AuditEntry[]; nextBefore: number | null }> {
+  let query = 'SELECT * FROM admin_audit WHERE 1 = 1';
+  const bindings: unknown[] = [];
+
+  if (filters.roomId) {
+    query += ' AND room_id = ?';
+    bindings.push(filters.roomId);
+  }
+  if (filters.action) {
+    query += ' AND action = ?';
+    bindings.push(filters.action);
+  }
+  if (filters.actor) {
+    query += ' AND actor = ?';
+    bindings.push(filters.actor);
+  }
+  if (filters.since) {
+    query += ' AND created_at >= ?';
+    bindings.push(filters.since);
+  }
+  if (filters.until) {
+    query += ' AND created_at < ?';
+    bindings.push(filters.until);
+  }
+  if (filters.beforeId !== undefined) {
+    query += ' AND audit_id < ?';
+    bindings.push(filters.beforeId);
+  }
+
+  query += ' ORDER BY audit_id DESC LIMIT ?';
+  bindings.push(filters.limit);
+
+  const result = await env.DB.prepare(query).bind(...bindings).all();
+  const entries = (result.results || []).map((row: any) => ({
+    auditId: row.audit_id,
+    createdAt: row.created_at,
+    actor: row.actor,
+    ip: row.ip,
+    action: row.action,
+    roomId: row.room_id,
+    before: parseJson(row.before_json),
+    after: parseJson(row.after_json),
+  }));
+
+  const nextBefore = entries.length === filters.limit ? entries[entries.length - 1].auditId : null;
+  return { entries, nextBefore };
+}
@@ -1,7 +1,22 @@
 import { DurableObject } from 'cloudflare:workers';
+import { purgeExpiredBatch, isValidRetention, RetentionPolicy } from './retention';
+import { isValidFingerprint, BannedKey, ModerationRequest, NameClaim } from './moderation';
+import { isValidAttachmentIds, linkMessageAttachments, deleteMessageAttachments } from './attachments';
+import {
+  isValidEpoch,
+  isValidEnvelopes,
+  isValidMemberCard,
+  createMemberChallenge,
+  verifyMemberProof,
+  EpochEnvelope,
+  SealedMemberCard,
+  MAX_GROUP_MEMBERS,
+  EPOCH_ENVELOPE_GRACE_MS,
+} from './group-keys';
 
 interface Env {
   DB: D1Database;
+  ATTACHMENTS: R2Bucket;
   RATE_LIMIT?: {
     MAX_CONNECTIONS_PER_IP?: number;
     MAX_MESSAGES_PER_MINUTE?: number;
@@ -14,57 +29,207 @@ interface ClientMessage {
   msgId: string;
   ivB64: string;
   ciphertextB64: string;
-  senderName?: string;
+  // Keyed hash of the sender's display name (the name itself stays in the ciphertext)
+  senderNameHash?: string;
   keyFingerprint?: string;
   version: number;
+  // Group key epoch the message is encrypted under; absent for the passphrase key
+  epoch?: number;
+  // ISO time after which the message is deleted for everyone
+  expiresAt?: string;
+  // Attachments the encrypted payload references, deleted along with the message
+  attachmentIds?: string[];
 }
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
+// Edit or delete of an existing message. The ciphertext carries the new content
+// and a signature that clients check against the original sender's key.
+interface ClientRevision {
+  type: 'edit' | 'delete';
+  revId: string;
+  msgId: string;
+  ivB64: string;
+  ciphertextB64: string;
+  version: number;
+  epoch?: number;
+}
+
+// Ephemeral presence for one socket. The display name is an encrypted blob the
+// server cannot read; members are identified by their name-claim fingerprint.
+interface PresenceEntry {
+  keyFingerprint: string;
+  version: number;
+  nameIvB64: string;
+  nameCiphertextB64: string;
+}
+
+// Per-socket state serialized with the WebSocket so it survives hibernation
+interface SocketAttachment {
+  ip: string;
+  // Key this socket last identified as, in a hello or a message
+  keyFingerprint?: string;
+  presence?: PresenceEntry;
+  lastTypingAt?: number;
+  // Challenge for proving a member key, issued on group_sync, and the member key
+  // this socket has proven it holds
+  groupChallenge?: string;
+  memberFingerprint?: string;
 }
 
-export class RecipeRoom extends DurableObject {
-  private connections: Set<WebSocket>;
-  private connectionsByIp: Map<string, number>;
-  private rateLimits: Map<string, RateLimitEntry>;
-  private env: Env;
+const PRESENCE_INTERVAL_MS = 30_000;
+const TYPING_THROTTLE_MS = 2_000;
+const MAX_PRESENCE_NAME_SIZE = 512;
+
+// Retention sweeps run hourly; a sweep stops after a few batches and resumes
+// shortly after, so a large purge doesn't hold up the room
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+const RETENTION_CONTINUE_MS = 1_000;
+const PURGE_BATCHES_PER_ALARM = 5;
+
+// Longest lifetime a sender can give a disappearing message
+const MAX_MESSAGE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const EXPIRY_BATCH_SIZE = 100;
+
+// Close code for sockets of a banned key; clients don't reconnect after it
+const BANNED_CLOSE_CODE = 4003;
+const ROOM_DELETED_CLOSE_CODE = 4004;
+
+export class RecipeRoom extends DurableObject<Env> {
   private initialized: boolean;
 
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
-    this.connections = new Set();
-    this.connectionsByIp = new Map();
-    this.rateLimits = new Map();
-    this.env = env;
     this.initialized = false;
   }
 
   private ensureSchema(): void {
     if (this.initialized) return;
+    // Claims used to be keyed by plaintext name; they can't be converted to hashes
+    // here, so drop them and let members re-claim on their next message
+    this.ctx.storage.sql.exec('DROP TABLE IF EXISTS name_claims');
     this.ctx.storage.sql.exec(`
-      CREATE TABLE IF NOT EXISTS name_claims (
-        display_name TEXT PRIMARY KEY,
+      CREATE TABLE IF NOT EXISTS name_hash_claims (
+        name_hash TEXT PRIMARY KEY,
         key_fingerprint TEXT NOT NULL,
         claimed_at TEXT NOT NULL
       )
     `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        ip TEXT PRIMARY KEY,
+        count INTEGER NOT NULL,
+        reset_at INTEGER NOT NULL
+      )
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      )
+    `);
+    // The single storage alarm is shared by several jobs; each keeps its own due time here
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS timers (
+        name TEXT PRIMARY KEY,
+        due_at INTEGER NOT NULL
+      )
+    `);
+    // Disappearing messages still stored in D1, so the alarm knows what to delete when
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS expiring_messages (
+        msg_id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+    // Copy of the room's retention policy (the rooms row in D1 is the source of truth)
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS retention (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        room_id TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        value INTEGER
+      )
+    `);
+    // Keys a room admin has banned. Fingerprints are asserted by clients, so a ban
+    // keeps out that key, not a person who generates a new one.
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS banned_keys (
+        key_fingerprint TEXT PRIMARY KEY,
+        reason TEXT,
+        banned_at TEXT NOT NULL
+      )
+    `);
+    // Group key roster and epochs (see group-keys.ts). Banned members stay listed as
+    // removed so envelopes they signed can still be checked. Envelopes hold each
+    // member's wrapped copy of an epoch key; an epoch's members are the ones it has envelopes for.
+    // A superseded epoch's envelopes are deleted after EPOCH_ENVELOPE_GRACE_MS.
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS group_members (
+        key_fingerprint TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        iv_b64 TEXT NOT NULL,
+        ciphertext_b64 TEXT NOT NULL,
+        joined_at TEXT NOT NULL,
+        removed_at TEXT
+      )
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS group_epochs (
+        epoch INTEGER PRIMARY KEY,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS group_envelopes (
+        epoch INTEGER NOT NULL,
+        key_fingerprint TEXT NOT NULL,
+        envelope TEXT NOT NULL,
+        PRIMARY KEY (epoch, key_fingerprint)
+      )
+    `);
     this.initialized = true;
   }
 
-  // Check if a name is available or belongs to this fingerprint
-  private checkNameClaim(senderName: string, keyFingerprint: string): { ok: boolean; owner?: string } {
+  // Allocate the next per-room message sequence number. The counter lives in
+  // Durable Object storage and is seeded from D1 the first time it is used.
+  private async nextSeq(roomId: string): Promise<number> {
     this.ensureSchema();
+    const counterExists = () =>
+      this.ctx.storage.sql.exec("SELECT value FROM counters WHERE name = 'seq'").toArray().length > 0;
+
+    if (!counterExists()) {
+      await this.ctx.blockConcurrencyWhile(async () => {
+        if (counterExists()) return;
+        const row = await this.env.DB.prepare('SELECT MAX(seq) as max_seq FROM messages WHERE room_id = ?')
+          .bind(roomId)
+          .first();
+        this.ctx.storage.sql.exec(
+          "INSERT INTO counters (name, value) VALUES ('seq', ?)",
+          (row?.max_seq as number | null) || 0
+        );
+      });
+    }
+
     const row = this.ctx.storage.sql.exec(
-      'SELECT key_fingerprint FROM name_claims WHERE display_name = ?',
-      senderName
+      "UPDATE counters SET value = value + 1 WHERE name = 'seq' RETURNING value"
     ).one();
+    return row.value as number;
+  }
+
+  // Check if a name hash is available or belongs to this fingerprint
+  private checkNameClaim(nameHash: string, keyFingerprint: string): { ok: boolean; owner?: string } {
+    this.ensureSchema();
+    const [row] = this.ctx.storage.sql.exec(
+      'SELECT key_fingerprint FROM name_hash_claims WHERE name_hash = ?',
+      nameHash
+    ).toArray();
 
     if (!row) {
       // Name is unclaimed — register it
       this.ctx.storage.sql.exec(
-        'INSERT INTO name_claims (display_name, key_fingerprint, claimed_at) VALUES (?, ?, ?)',
-        senderName,
+        'INSERT INTO name_hash_claims (name_hash, key_fingerprint, claimed_at) VALUES (?, ?, ?)',
+        nameHash,
         keyFingerprint,
         new Date().toISOString()
       );
@@ -80,6 +245,32 @@ export class RecipeRoom extends DurableObject {
   }
 
   async fetch(request: Request): Promise<Response> {
+    // Retention changes pushed by the Worker's admin API; not reachable from outside,
+    // since the Worker only forwards WebSocket upgrades here
+    if (new URL(request.url).pathname === '/internal/retention' && request.method === 'POST') {
+      const body = await request.json() as { roomId?: string; retention?: unknown };
+      if (typeof body.roomId !== 'string' || !isValidRetention(body.retention)) {
+        return new Response('Invalid retention', { status: 400 });
+      }
+      await this.setRetention(body.roomId, body.retention);
+      return new Response(null, { status: 204 });
+    }
+
+    // Moderation actions from the Worker's admin API, already authorized there
+    if (new URL(request.url).pathname === '/internal/moderation' && request.method === 'POST') {
+      const body = await request.json() as { roomId?: string } & ModerationRequest;
+      if (typeof body.roomId !== 'string') {
+        return new Response('Invalid moderation request', { status: 400 });
+      }
+      return this.moderate(body.roomId, body);
+    }
+
+    // Sent by the Worker when it deletes the room
+    if (new URL(request.url).pathname === '/internal/reset' && request.method === 'POST') {
+      await this.reset();
+      return new Response(null, { status: 204 });
+    }
+
     const upgradeHeader = request.headers.get('Upgrade');
     if (upgradeHeader !== 'websocket') {
       return new Response('Expected WebSocket', { status: 426 });
@@ -88,8 +279,9 @@ export class RecipeRoom extends DurableObject {
     const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
     const maxConnectionsPerIp = this.env.RATE_LIMIT?.MAX_CONNECTIONS_PER_IP || 10;
 
-    // Check connection limit per IP
-    const currentConnections = this.connectionsByIp.get(ip) || 0;
+    // Check connection limit per IP. Sockets are tagged with their IP, so the
+    // count comes from the runtime and survives hibernation and restarts.
+    const currentConnections = this.ctx.getWebSockets(ipTag(ip)).length;
     if (currentConnections >= maxConnectionsPerIp) {
       return new Response('Too many connections', { status: 429 });
     }
@@ -97,7 +289,14 @@ export class RecipeRoom extends DurableObject {
     const pair = new WebSocketPair();
     const [client, server] = Object.values(pair);
 
-    this.handleSession(server, ip);
+    this.ctx.acceptWebSocket(server, [ipTag(ip)]);
+    server.serializeAttachment({ ip } satisfies SocketAttachment);
+
+    // Start the periodic presence snapshot when the room becomes active
+    if (this.getTimer('presence') === null) {
+      this.setTimer('presence', Date.now() + PRESENCE_INTERVAL_MS);
+      await this.scheduleAlarm();
+    }
 
     return new Response(null, {
       status: 101,
@@ -105,63 +304,725 @@ export class RecipeRoom extends DurableObject {
     });
   }
 
-  async handleSession(ws: WebSocket, ip: string): Promise<void> {
-    ws.accept();
-    this.connections.add(ws);
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const { ip } = getAttachment(ws);
+    try {
+      const data = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
+      await this.handleMessage(ws, ip, data);
+    } catch (err) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    this.handleClose(ws);
+    try {
+      // Complete the close handshake (required before auto-reply compatibility dates)
+      ws.close(code, reason);
+    } catch {
+      // Already closed
+    }
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    this.handleClose(ws);
+  }
+
+  private handleClose(ws: WebSocket): void {
+    const { ip, presence, memberFingerprint } = getAttachment(ws);
+    // Clear presence so this socket no longer counts while it finishes closing
+    ws.serializeAttachment({ ip } satisfies SocketAttachment);
 
-    const currentCount = this.connectionsByIp.get(ip) || 0;
-    this.connectionsByIp.set(ip, currentCount + 1);
+    // Only announce a leave once the member's last socket is gone
+    if (presence && !this.isPresent(presence.keyFingerprint, ws)) {
+      this.broadcast({ type: 'leave', keyFingerprint: presence.keyFingerprint }, ws);
+    }
+
+    // Let whoever is left rotate if the last holder of the latest group key went
+    if (memberFingerprint && this.latestHolders().has(memberFingerprint) && this.epochStranded()) {
+      this.pushGroupState();
+    }
+  }
+
+  // Forget the deleted room's state, so a room created later under the same name
+  // starts clean, and drop everyone still connected
+  private async reset(): Promise<void> {
+    this.ensureSchema();
+    for (const table of [
+      'group_members',
+      'group_epochs',
+      'group_envelopes',
+      'banned_keys',
+      'name_hash_claims',
+      'counters',
+      'expiring_messages',
+      'retention',
+      'timers',
+    ]) {
+      this.ctx.storage.sql.exec(`DELETE FROM ${table}`);
+    }
+    await this.scheduleAlarm();
 
-    ws.addEventListener('message', async (event) => {
+    for (const socket of this.openSockets()) {
+      this.handleClose(socket);
       try {
-        const data = JSON.parse(event.data as string);
-        await this.handleMessage(ws, ip, data);
-      } catch (err) {
-        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+        socket.close(ROOM_DELETED_CLOSE_CODE, 'Room deleted');
+      } catch {
+        // Already closed
       }
-    });
+    }
+  }
 
-    ws.addEventListener('close', () => {
-      this.connections.delete(ws);
-      const count = this.connectionsByIp.get(ip) || 0;
-      if (count <= 1) {
-        this.connectionsByIp.delete(ip);
+  // Runs whichever timers are due, then re-arms the alarm for the next one.
+  async alarm(): Promise<void> {
+    const now = Date.now();
+
+    // Periodic presence snapshot so clients can correct any missed join/leave frames.
+    // Stops once the room is empty, so idle rooms stay hibernated.
+    const presenceDue = this.getTimer('presence');
+    if (presenceDue !== null && presenceDue <= now) {
+      if (this.openSockets().length > 0) {
+        this.broadcast(this.presenceSnapshot());
+        this.setTimer('presence', now + PRESENCE_INTERVAL_MS);
       } else {
-        this.connectionsByIp.set(ip, count - 1);
+        this.clearTimer('presence');
       }
-    });
+    }
 
-    ws.addEventListener('error', () => {
-      this.connections.delete(ws);
-      const count = this.connectionsByIp.get(ip) || 0;
-      if (count <= 1) {
-        this.connectionsByIp.delete(ip);
-      } else {
-        this.connectionsByIp.set(ip, count - 1);
+    const expiryDue = this.getTimer('expiry');
+    if (expiryDue !== null && expiryDue <= now) {
+      await this.deleteExpiredMessages(now);
+    }
+
+    const retentionDue = this.getTimer('retention');
+    if (retentionDue !== null && retentionDue <= now) {
+      await this.enforceRetention();
+    }
+
+    const envelopesDue = this.getTimer('envelopes');
+    if (envelopesDue !== null && envelopesDue <= now) {
+      this.pruneEnvelopes(now);
+    }
+
+    await this.scheduleAlarm();
+  }
+
+  // Delete disappearing messages whose time is up and tell clients to drop them.
+  // Failed deletes stay in the table and are retried on the next run.
+  private async deleteExpiredMessages(now: number): Promise<void> {
+    const due = this.ctx.storage.sql.exec(
+      'SELECT msg_id, room_id FROM expiring_messages WHERE expires_at <= ? ORDER BY expires_at LIMIT ?',
+      now,
+      EXPIRY_BATCH_SIZE
+    ).toArray() as { msg_id: string; room_id: string }[];
+
+    if (due.length > 0) {
+      const msgIds = due.map((row) => row.msg_id);
+      try {
+        await this.deleteMessages(due[0].room_id, msgIds);
+        this.broadcast({ type: 'expired', msgIds });
+      } catch (err) {
+        console.error('Failed to delete expired messages:', err);
+        this.setTimer('expiry', now + RETENTION_CONTINUE_MS);
+        return;
       }
-    });
+    }
+
+    this.scheduleExpiry();
   }
 
-  async handleMessage(ws: WebSocket, ip: string, data: any): Promise<void> {
-    // Rate limiting
+  // Delete messages with their revisions and attachments, and stop tracking their expiry
+  private async deleteMessages(roomId: string, msgIds: string[]): Promise<void> {
+    await deleteMessageAttachments(this.env, roomId, msgIds);
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        'DELETE FROM message_revisions WHERE room_id = ? AND msg_id IN (SELECT value FROM json_each(?))'
+      ).bind(roomId, JSON.stringify(msgIds)),
+      this.env.DB.prepare(
+        'DELETE FROM messages WHERE room_id = ? AND msg_id IN (SELECT value FROM json_each(?))'
+      ).bind(roomId, JSON.stringify(msgIds)),
+    ]);
+    for (const msgId of msgIds) {
+      this.ctx.storage.sql.exec('DELETE FROM expiring_messages WHERE msg_id = ?', msgId);
+    }
+  }
+
+  // Arm the expiry timer for the next disappearing message, if any
+  private scheduleExpiry(): void {
+    const [row] = this.ctx.storage.sql.exec('SELECT MIN(expires_at) AS expires_at FROM expiring_messages').toArray();
+    const next = row?.expires_at as number | null | undefined;
+    if (next === null || next === undefined) {
+      this.clearTimer('expiry');
+    } else {
+      this.setTimer('expiry', next);
+    }
+  }
+
+  private getTimer(name: string): number | null {
+    this.ensureSchema();
+    const [row] = this.ctx.storage.sql.exec('SELECT due_at FROM timers WHERE name = ?', name).toArray();
+    return row ? (row.due_at as number) : null;
+  }
+
+  private setTimer(name: string, dueAt: number): void {
+    this.ensureSchema();
+    this.ctx.storage.sql.exec(
+      'INSERT INTO timers (name, due_at) VALUES (?, ?) ON CONFLICT (name) DO UPDATE SET due_at = excluded.due_at',
+      name,
+      dueAt
+    );
+  }
+
+  private clearTimer(name: string): void {
+    this.ensureSchema();
+    this.ctx.storage.sql.exec('DELETE FROM timers WHERE name = ?', name);
+  }
+
+  // Point the storage alarm at the earliest pending timer, or clear it if none remain
+  private async scheduleAlarm(): Promise<void> {
+    this.ensureSchema();
+    const [row] = this.ctx.storage.sql.exec('SELECT MIN(due_at) AS due_at FROM timers').toArray();
+    const dueAt = row?.due_at as number | null | undefined;
+    if (dueAt === null || dueAt === undefined) {
+      await this.ctx.storage.deleteAlarm();
+    } else if ((await this.ctx.storage.getAlarm()) !== dueAt) {
+      await this.ctx.storage.setAlarm(dueAt);
+    }
+  }
+
+  // Store the room's retention policy and sweep right away, or stop sweeping for 'forever'
+  private async setRetention(roomId: string, policy: RetentionPolicy): Promise<void> {
+    this.ensureSchema();
+    if (policy.mode === 'forever') {
+      this.ctx.storage.sql.exec('DELETE FROM retention');
+      this.clearTimer('retention');
+    } else {
+      this.ctx.storage.sql.exec(
+        'INSERT INTO retention (id, room_id, mode, value) VALUES (1, ?, ?, ?) ON CONFLICT (id) DO UPDATE SET room_id = excluded.room_id, mode = excluded.mode, value = excluded.value',
+        roomId,
+        policy.mode,
+        policy.value
+      );
+      this.setTimer('retention', Date.now());
+    }
+    await this.scheduleAlarm();
+  }
+
+  // Purge a few batches of expired messages from D1, then schedule the next sweep:
+  // soon if there is more to delete, otherwise after the regular interval
+  private async enforceRetention(): Promise<void> {
+    const [row] = this.ctx.storage.sql.exec('SELECT room_id, mode, value FROM retention WHERE id = 1').toArray();
+    if (!row) {
+      this.clearTimer('retention');
+      return;
+    }
+
+    const roomId = row.room_id as string;
+    const policy = { mode: row.mode, value: row.value } as RetentionPolicy;
+    let more = false;
+    try {
+      for (let batch = 0; batch < PURGE_BATCHES_PER_ALARM; batch++) {
+        const deleted = await purgeExpiredBatch(this.env, roomId, policy);
+        more = deleted > 0;
+        if (!more) break;
+      }
+    } catch (err) {
+      console.error('Failed to purge expired messages:', err);
+    }
+    this.setTimer('retention', Date.now() + (more ? RETENTION_CONTINUE_MS : RETENTION_INTERVAL_MS));
+  }
+
+  private async moderate(roomId: string, req: ModerationRequest): Promise<Response> {
+    this.ensureSchema();
+    const notFound = () => new Response('Not found', { status: 404 });
+
+    switch (req.op) {
+      case 'list': {
+        const bans: BannedKey[] = this.ctx.storage.sql
+          .exec('SELECT key_fingerprint, reason, banned_at FROM banned_keys ORDER BY banned_at DESC')
+          .toArray()
+          .map((row) => ({
+            keyFingerprint: row.key_fingerprint as string,
+            reason: row.reason as string | null,
+            bannedAt: row.banned_at as string,
+          }));
+        const claims: NameClaim[] = this.ctx.storage.sql
+          .exec('SELECT name_hash, key_fingerprint, claimed_at FROM name_hash_claims ORDER BY claimed_at DESC')
+          .toArray()
+          .map((row) => ({
+            nameHash: row.name_hash as string,
+            keyFingerprint: row.key_fingerprint as string,
+            claimedAt: row.claimed_at as string,
+          }));
+        return Response.json({ bans, claims });
+      }
+
+      case 'remove_messages':
+        await this.deleteMessages(roomId, req.msgIds);
+        this.scheduleExpiry();
+        await this.scheduleAlarm();
+        this.broadcast({ type: 'removed', msgIds: req.msgIds });
+        return new Response(null, { status: 204 });
+
+      case 'ban':
+        this.ctx.storage.sql.exec(
+          'INSERT INTO banned_keys (key_fingerprint, reason, banned_at) VALUES (?, ?, ?) ON CONFLICT (key_fingerprint) DO UPDATE SET reason = excluded.reason',
+          req.keyFingerprint,
+          req.reason,
+          new Date().toISOString()
+        );
+        for (const socket of this.openSockets()) {
+          const { keyFingerprint, presence, memberFingerprint } = getAttachment(socket);
+          if (
+            keyFingerprint === req.keyFingerprint ||
+            presence?.keyFingerprint === req.keyFingerprint ||
+            memberFingerprint === req.keyFingerprint
+          ) {
+            this.disconnectBanned(socket);
+          }
+        }
+        // Dropping the key from the group roster makes the remaining members rotate it out
+        const removed = this.ctx.storage.sql.exec(
+          'UPDATE group_members SET removed_at = ? WHERE key_fingerprint = ? AND removed_at IS NULL',
+          new Date().toISOString(),
+          req.keyFingerprint
+        );
+        if (removed.rowsWritten > 0) {
+          this.pushGroupState();
+        }
+        return new Response(null, { status: 204 });
+
+      case 'unban':
+        if (this.ctx.storage.sql.exec('DELETE FROM banned_keys WHERE key_fingerprint = ?', req.keyFingerprint).rowsWritten === 0) {
+          return notFound();
+        }
+        return new Response(null, { status: 204 });
+
+      case 'release_claim':
+        if (this.ctx.storage.sql.exec('DELETE FROM name_hash_claims WHERE name_hash = ?', req.nameHash).rowsWritten === 0) {
+          return notFound();
+        }
+        return new Response(null, { status: 204 });
+
+      case 'reassign_claim': {
+        const cursor = this.ctx.storage.sql.exec(
+          'UPDATE name_hash_claims SET key_fingerprint = ?, claimed_at = ? WHERE name_hash = ?',
+          req.keyFingerprint,
+          new Date().toISOString(),
+          req.nameHash
+        );
+        return cursor.rowsWritten === 0 ? notFound() : new Response(null, { status: 204 });
+      }
+
+      default:
+        return new Response('Invalid moderation request', { status: 400 });
+    }
+  }
+
+  private isBanned(keyFingerprint: string | undefined): boolean {
+    if (!keyFingerprint) return false;
+    this.ensureSchema();
+    return this.ctx.storage.sql.exec('SELECT 1 FROM banned_keys WHERE key_fingerprint = ?', keyFingerprint).toArray().length > 0;
+  }
+
+  // Refuse frames from a banned key, and remember which key an allowed socket uses
+  // so a later ban can find it. Returns false if the socket was disconnected.
+  private admitFrame(ws: WebSocket, data: any): boolean {
+    const attachment = getAttachment(ws);
+    const claimed = isValidFingerprint(data.keyFingerprint) ? data.keyFingerprint : undefined;
+
+    if (this.isBanned(attachment.keyFingerprint) || this.isBanned(claimed)) {
+      if (data.type === 'message' && typeof data.msgId === 'string') {
+        this.nack(ws, data.msgId, 'banned', 'This key is banned from the room', false);
+      }
+      this.disconnectBanned(ws);
+      return false;
+    }
+
+    if (claimed && claimed !== attachment.keyFingerprint) {
+      ws.serializeAttachment({ ...attachment, keyFingerprint: claimed } satisfies SocketAttachment);
+    }
+    return true;
+  }
+
+  private disconnectBanned(ws: WebSocket): void {
+    this.handleClose(ws);
+    try {
+      ws.close(BANNED_CLOSE_CODE, 'Banned');
+    } catch {
+      // Already closed
+    }
+  }
+
+  private openSockets(): WebSocket[] {
+    return this.ctx.getWebSockets().filter((socket) => socket.readyState === 1);
+  }
+
+  private isPresent(keyFingerprint: string, except?: WebSocket): boolean {
+    return this.openSockets().some(
+      (socket) => socket !== except && getAttachment(socket).presence?.keyFingerprint === keyFingerprint
+    );
+  }
+
+  private presenceSnapshot(): { type: 'presence'; members: PresenceEntry[] } {
+    const members = new Map<string, PresenceEntry>();
+    for (const socket of this.openSockets()) {
+      const entry = getAttachment(socket).presence;
+      if (entry) members.set(entry.keyFingerprint, entry);
+    }
+    return { type: 'presence', members: Array.from(members.values()) };
+  }
+
+  // Fixed one-minute window per IP, kept in storage so it survives hibernation
+  private checkRateLimit(ip: string): boolean {
+    this.ensureSchema();
     const maxMessagesPerMinute = this.env.RATE_LIMIT?.MAX_MESSAGES_PER_MINUTE || 30;
     const now = Date.now();
-    const rateLimit = this.rateLimits.get(ip);
 
-    if (rateLimit && now < rateLimit.resetAt) {
-      if (rateLimit.count >= maxMessagesPerMinute) {
-        ws.send(JSON.stringify({ type: 'error', message: 'Rate limit exceeded' }));
+    this.ctx.storage.sql.exec('DELETE FROM rate_limits WHERE reset_at <= ?', now);
+    const row = this.ctx.storage.sql.exec(
+      'SELECT count FROM rate_limits WHERE ip = ?',
+      ip
+    ).toArray()[0];
+
+    if (!row) {
+      this.ctx.storage.sql.exec(
+        'INSERT INTO rate_limits (ip, count, reset_at) VALUES (?, 1, ?)',
+        ip,
+        now + 60000 // 1 minute
+      );
+      return true;
+    }
+
+    if ((row.count as number) >= maxMessagesPerMinute) {
+      return false;
+    }
+
+    this.ctx.storage.sql.exec('UPDATE rate_limits SET count = count + 1 WHERE ip = ?', ip);
+    return true;
+  }
+
+  // Ephemeral frames: relayed to other sockets, never persisted or rate limited
+  // against the message budget
+  private handleEphemeral(ws: WebSocket, data: any): void {
+    const attachment = getAttachment(ws);
+
+    if (data.type === 'hello') {
+      if (
+        typeof data.keyFingerprint !== 'string' ||
+        !/^[0-9a-f]{32}$/.test(data.keyFingerprint) ||
+        typeof data.version !== 'number' ||
+        typeof data.nameIvB64 !== 'string' ||
+        typeof data.nameCiphertextB64 !== 'string' ||
+        data.nameCiphertextB64.length > MAX_PRESENCE_NAME_SIZE
+      ) {
+        ws.send(JSON.stringify({ type: 'error', message: 'Missing required fields' }));
+        return;
+      }
+
+      const entry: PresenceEntry = {
+        keyFingerprint: data.keyFingerprint,
+        version: data.version,
+        nameIvB64: data.nameIvB64,
+        nameCiphertextB64: data.nameCiphertextB64,
+      };
+      const wasPresent = this.isPresent(entry.keyFingerprint, ws);
+      ws.serializeAttachment({ ...attachment, presence: entry } satisfies SocketAttachment);
+
+      ws.send(JSON.stringify(this.presenceSnapshot()));
+      if (!wasPresent) {
+        this.broadcast({ type: 'join', ...entry }, ws);
+      }
+      return;
+    }
+
+    // typing: only from sockets that announced themselves, throttled per socket
+    if (!attachment.presence) return;
+
+    const now = Date.now();
+    if (now - (attachment.lastTypingAt || 0) < TYPING_THROTTLE_MS) return;
+    ws.serializeAttachment({ ...attachment, lastTypingAt: now } satisfies SocketAttachment);
+
+    this.broadcast({ type: 'typing', keyFingerprint: attachment.presence.keyFingerprint }, ws);
+  }
+
+  // Roster, latest epoch and the envelopes addressed to a socket's key: every epoch's
+  // on sync, only the latest one's on a push after a change
+  private groupState(attachment: SocketAttachment, allEpochs: boolean) {
+    this.ensureSchema();
+    const keyFingerprint = attachment.memberFingerprint || attachment.keyFingerprint;
+    const members: SealedMemberCard[] = this.ctx.storage.sql
+      .exec('SELECT key_fingerprint, version, iv_b64, ciphertext_b64, removed_at FROM group_members ORDER BY joined_at')
+      .toArray()
+      .map((row) => ({
+        keyFingerprint: row.key_fingerprint as string,
+        version: row.version as number,
+        ivB64: row.iv_b64 as string,
+        ciphertextB64: row.ciphertext_b64 as string,
+        removed: row.removed_at !== null,
+      }));
+    const epoch = this.latestEpoch();
+    const epochMembers = this.ctx.storage.sql
+      .exec('SELECT key_fingerprint FROM group_envelopes WHERE epoch = ?', epoch)
+      .toArray()
+      .map((row) => row.key_fingerprint as string);
+    const envelopes: EpochEnvelope[] = keyFingerprint
+      ? this.ctx.storage.sql
+          .exec(
+            'SELECT epoch, envelope FROM group_envelopes WHERE key_fingerprint = ? AND epoch >= ? ORDER BY epoch',
+            keyFingerprint,
+            allEpochs ? 0 : epoch
+          )
+          .toArray()
+          .map((row) => ({ epoch: row.epoch as number, envelope: row.envelope as string }))
+      : [];
+    return {
+      type: 'group',
+      members,
+      epoch,
+      epochMembers,
+      envelopes,
+      stranded: this.epochStranded(),
+      challenge: attachment.groupChallenge,
+    };
+  }
+
+  private latestEpoch(): number {
+    const [row] = this.ctx.storage.sql.exec('SELECT MAX(epoch) AS epoch FROM group_epochs').toArray();
+    return (row?.epoch as number | null) || 0;
+  }
+
+  // Active members the latest epoch was wrapped for
+  private latestHolders(): Set<string> {
+    this.ensureSchema();
+    return new Set(
+      this.ctx.storage.sql
+        .exec(
+          'SELECT e.key_fingerprint FROM group_envelopes e JOIN group_members m ON m.key_fingerprint = e.key_fingerprint WHERE e.epoch = ? AND m.removed_at IS NULL',
+          this.latestEpoch()
+        )
+        .toArray()
+        .map((row) => row.key_fingerprint as string)
+    );
+  }
+
+  // Whether no connected socket has proven the key of an active member holding the
+  // latest epoch. Nobody online could rotate it then, so any roster member may start
+  // the next one; otherwise a room whose holders were all removed would stay stuck.
+  private epochStranded(): boolean {
+    if (this.latestEpoch() === 0) return false;
+    const holders = this.latestHolders();
+    return !this.openSockets().some((socket) => {
+      const { memberFingerprint } = getAttachment(socket);
+      return memberFingerprint !== undefined && holders.has(memberFingerprint);
+    });
+  }
+
+  // Send every socket the new group state, with its own envelope for the latest epoch
+  private pushGroupState(): void {
+    for (const socket of this.openSockets()) {
+      socket.send(JSON.stringify(this.groupState(getAttachment(socket), false)));
+    }
+  }
+
+  // Tie a member key to this socket once it signs the socket's challenge with it
+  private async proveMember(ws: WebSocket, data: any): Promise<void> {
+    const { groupChallenge } = getAttachment(ws);
+    const proven =
+      isValidFingerprint(data.keyFingerprint) &&
+      !this.isBanned(data.keyFingerprint) &&
+      groupChallenge !== undefined &&
+      (await verifyMemberProof(data.keyFingerprint, data.publicKeyJwk, data.proofB64, await this.getRoomId(), groupChallenge));
+    if (!proven) {
+      ws.send(JSON.stringify({ type: 'error', code: 'member_unproven', message: 'Could not verify the member key' }));
+      return;
+    }
+    ws.serializeAttachment({ ...getAttachment(ws), memberFingerprint: data.keyFingerprint } satisfies SocketAttachment);
+  }
+
+  // Add or update the sender's member card, rejoining after an unban. Re-sending an
+  // unchanged card is a no-op, so members don't trigger a rotation just by reconnecting.
+  // Only a socket that proved it holds the card's signing key may change the card.
+  private registerMember(ws: WebSocket, data: any): void {
+    this.ensureSchema();
+    const card: SealedMemberCard = {
+      keyFingerprint: data.keyFingerprint,
+      version: data.version,
+      ivB64: data.ivB64,
+      ciphertextB64: data.ciphertextB64,
+    };
+    if (!isValidMemberCard(card)) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Invalid member card' }));
+      return;
+    }
+    if (getAttachment(ws).memberFingerprint !== card.keyFingerprint) {
+      ws.send(JSON.stringify({ type: 'error', code: 'member_unproven', message: 'Prove the member key before registering it' }));
+      return;
+    }
+
+    const [existing] = this.ctx.storage.sql
+      .exec('SELECT version, ciphertext_b64, removed_at FROM group_members WHERE key_fingerprint = ?', card.keyFingerprint)
+      .toArray();
+    if (
+      existing?.version === card.version &&
+      existing.ciphertext_b64 === card.ciphertextB64 &&
+      existing.removed_at === null
+    ) {
+      return;
+    }
+
+    if (!existing || existing.removed_at !== null) {
+      const [count] = this.ctx.storage.sql
+        .exec('SELECT COUNT(*) AS count FROM group_members WHERE removed_at IS NULL')
+        .toArray();
+      if ((count.count as number) >= MAX_GROUP_MEMBERS) {
+        ws.send(JSON.stringify({ type: 'error', code: 'group_full', message: 'This room has too many group key members' }));
         return;
       }
-      rateLimit.count++;
+    }
+
+    this.ctx.storage.sql.exec(
+      'INSERT INTO group_members (key_fingerprint, version, iv_b64, ciphertext_b64, joined_at) VALUES (?, ?, ?, ?, ?) ON CONFLICT (key_fingerprint) DO UPDATE SET version = excluded.version, iv_b64 = excluded.iv_b64, ciphertext_b64 = excluded.ciphertext_b64, removed_at = NULL',
+      card.keyFingerprint,
+      card.version,
+      card.ivB64,
+      card.ciphertextB64,
+      new Date().toISOString()
+    );
+    this.pushGroupState();
+  }
+
+  // Accept the next epoch if it directly follows the latest one, comes from a socket
+  // that proved the key of a member of the latest epoch (anyone on the roster may
+  // start the first, or the next one while the latest is stranded), and only wraps
+  // the key for roster members. Concurrent proposals for the same epoch lose here.
+  private async proposeEpoch(ws: WebSocket, data: any): Promise<void> {
+    this.ensureSchema();
+    if (!isValidEpoch(data.epoch) || !isValidEnvelopes(data.envelopes)) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Invalid epoch proposal' }));
+      return;
+    }
+    const proposer = getAttachment(ws).memberFingerprint;
+    if (!proposer) {
+      ws.send(JSON.stringify({ type: 'error', code: 'epoch_rejected', message: 'Prove a group key member key first' }));
+      return;
+    }
+    const envelopes = data.envelopes as Record<string, string>;
+
+    const latest = this.latestEpoch();
+    if (data.epoch !== latest + 1) {
+      ws.send(JSON.stringify({ type: 'error', code: 'epoch_conflict', message: 'Another member already rotated the group key' }));
+      return;
+    }
+
+    const roster = new Set(
+      this.ctx.storage.sql
+        .exec('SELECT key_fingerprint FROM group_members WHERE removed_at IS NULL')
+        .toArray()
+        .map((row) => row.key_fingerprint as string)
+    );
+    const mayPropose =
+      latest === 0 ||
+      this.ctx.storage.sql
+        .exec('SELECT 1 FROM group_envelopes WHERE epoch = ? AND key_fingerprint = ?', latest, proposer)
+        .toArray().length > 0 ||
+      this.epochStranded();
+    const recipients = Object.keys(envelopes);
+    if (!roster.has(proposer) || !mayPropose || !recipients.includes(proposer) || recipients.some((fp) => !roster.has(fp))) {
+      ws.send(JSON.stringify({ type: 'error', code: 'epoch_rejected', message: 'Not allowed to rotate the group key' }));
+      return;
+    }
+
+    this.ctx.storage.sql.exec(
+      'INSERT INTO group_epochs (epoch, created_by, created_at) VALUES (?, ?, ?)',
+      data.epoch,
+      proposer,
+      new Date().toISOString()
+    );
+    for (const [fingerprint, envelope] of Object.entries(envelopes)) {
+      this.ctx.storage.sql.exec(
+        'INSERT INTO group_envelopes (epoch, key_fingerprint, envelope) VALUES (?, ?, ?)',
+        data.epoch,
+        fingerprint,
+        envelope
+      );
+    }
+    this.pushGroupState();
+    this.pruneEnvelopes(Date.now());
+    await this.scheduleAlarm();
+  }
+
+  // Delete the envelopes of epochs superseded more than the grace window ago, then
+  // arm the timer for the next epoch whose window is still running
+  private pruneEnvelopes(now: number): void {
+    this.ensureSchema();
+    this.ctx.storage.sql.exec(
+      'DELETE FROM group_envelopes WHERE epoch IN (SELECT e.epoch FROM group_epochs e JOIN group_epochs n ON n.epoch = e.epoch + 1 WHERE n.created_at <= ?)',
+      new Date(now - EPOCH_ENVELOPE_GRACE_MS).toISOString()
+    );
+    const [row] = this.ctx.storage.sql
+      .exec(
+        'SELECT MIN(n.created_at) AS superseded_at FROM group_epochs n WHERE EXISTS (SELECT 1 FROM group_envelopes e WHERE e.epoch = n.epoch - 1)'
+      )
+      .toArray();
+    const supersededAt = row?.superseded_at as string | null | undefined;
+    if (supersededAt === null || supersededAt === undefined) {
+      this.clearTimer('envelopes');
     } else {
-      this.rateLimits.set(ip, {
-        count: 1,
-        resetAt: now + 60000, // 1 minute
-      });
+      this.setTimer('envelopes', Date.parse(supersededAt) + EPOCH_ENVELOPE_GRACE_MS);
+    }
+  }
+
+  async handleMessage(ws: WebSocket, ip: string, data: any): Promise<void> {
+    if (!this.admitFrame(ws, data)) return;
+
+    if (data.type === 'hello' || data.type === 'typing') {
+      this.handleEphemeral(ws, data);
+      return;
+    }
+
+    // Read-only, sent on every connect; also hands out the socket's member challenge
+    if (data.type === 'group_sync') {
+      let attachment = getAttachment(ws);
+      if (!attachment.groupChallenge) {
+        attachment = { ...attachment, groupChallenge: createMemberChallenge() };
+        ws.serializeAttachment(attachment satisfies SocketAttachment);
+      }
+      ws.send(JSON.stringify(this.groupState(attachment, true)));
+      return;
+    }
+
+    // Rate limiting
+    if (!this.checkRateLimit(ip)) {
+      if (data.type === 'message' && typeof data.msgId === 'string') {
+        this.nack(ws, data.msgId, 'rate_limited', 'Rate limit exceeded', true);
+      } else {
+        ws.send(JSON.stringify({ type: 'error', message: 'Rate limit exceeded' }));
+      }
+      return;
+    }
+
+    if (data.type === 'member_proof') {
+      await this.proveMember(ws, data);
+      return;
+    }
+
+    if (data.type === 'member') {
+      this.registerMember(ws, data);
+      return;
+    }
+
+    if (data.type === 'epoch') {
+      await this.proposeEpoch(ws, data);
+      return;
     }
 
     // Validate message
+    if (data.type === 'edit' || data.type === 'delete') {
+      await this.handleRevision(ws, data as ClientRevision);
+      return;
+    }
+
     if (data.type !== 'message') {
       ws.send(JSON.stringify({ type: 'error', message: 'Invalid message type' }));
       return;
@@ -170,26 +1031,55 @@ export class RecipeRoom extends DurableObject {
     const msg = data as ClientMessage;
     const maxMessageSize = this.env.RATE_LIMIT?.MAX_MESSAGE_SIZE || 16384;
 
-    if (!msg.msgId || !msg.ivB64 || !msg.ciphertextB64 || typeof msg.version !== 'number') {
+    if (!msg.msgId) {
       ws.send(JSON.stringify({ type: 'error', message: 'Missing required fields' }));
       return;
     }
 
+    if (!msg.ivB64 || !msg.ciphertextB64 || typeof msg.version !== 'number') {
+      this.nack(ws, msg.msgId, 'invalid', 'Missing required fields', false);
+      return;
+    }
+
     if (msg.ciphertextB64.length > maxMessageSize) {
-      ws.send(JSON.stringify({ type: 'error', message: 'Message too large' }));
+      this.nack(ws, msg.msgId, 'too_large', 'Message too large', false);
+      return;
+    }
+
+    if (msg.senderNameHash !== undefined && !/^[0-9a-f]{64}$/.test(msg.senderNameHash)) {
+      this.nack(ws, msg.msgId, 'invalid', 'Invalid name hash', false);
+      return;
+    }
+
+    if (msg.epoch !== undefined && !isValidEpoch(msg.epoch)) {
+      this.nack(ws, msg.msgId, 'invalid', 'Invalid epoch', false);
+      return;
+    }
+
+    if (msg.attachmentIds !== undefined && !isValidAttachmentIds(msg.attachmentIds)) {
+      this.nack(ws, msg.msgId, 'invalid', 'Invalid attachment IDs', false);
       return;
     }
 
-    // Enforce name uniqueness: if senderName and keyFingerprint are provided,
+    let expiresAt: number | null = null;
+    if (msg.expiresAt !== undefined) {
+      expiresAt = typeof msg.expiresAt === 'string' ? Date.parse(msg.expiresAt) : NaN;
+      if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+        this.nack(ws, msg.msgId, 'expired', 'Message expired before it was sent', false);
+        return;
+      }
+      if (expiresAt > Date.now() + MAX_MESSAGE_TTL_MS) {
+        this.nack(ws, msg.msgId, 'invalid', 'Expiry is too far in the future', false);
+        return;
+      }
+    }
+
+    // Enforce name uniqueness: if a name hash and keyFingerprint are provided,
     // verify this name belongs to (or is now claimed by) this key
-    if (msg.senderName && msg.keyFingerprint) {
-      const claim = this.checkNameClaim(msg.senderName, msg.keyFingerprint);
+    if (msg.senderNameHash && msg.keyFingerprint) {
+      const claim = this.checkNameClaim(msg.senderNameHash, msg.keyFingerprint);
       if (!claim.ok) {
-        ws.send(JSON.stringify({
-          type: 'error',
-          code: 'name_taken',
-          message: `The name "${msg.senderName}" is already claimed by another user in this room.`,
-        }));
+        this.nack(ws, msg.msgId, 'name_taken', 'That name is already claimed by another user in this room.', false);
         return;
       }
     }
@@ -199,48 +1089,177 @@ export class RecipeRoom extends DurableObject {
 
     // Store message in D1
     try {
+      // A retried send (e.g. after a lost ack) is acked again but not re-broadcast
+      if (await this.ackIfDuplicate(ws, roomId, msg)) return;
+
+      const seq = await this.nextSeq(roomId);
       const createdAt = new Date().toISOString();
-      await this.env.DB.prepare(
-        'INSERT INTO messages (room_id, msg_id, version, created_at, iv_b64, ciphertext_b64, sender_name) VALUES (?, ?, ?, ?, ?, ?, ?)'
-      )
-        .bind(
+      const expiresAtIso = expiresAt === null ? null : new Date(expiresAt).toISOString();
+      const [result] = await this.env.DB.batch([
+        this.env.DB.prepare(
+          'INSERT INTO messages (room_id, msg_id, seq, version, epoch, created_at, iv_b64, ciphertext_b64, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT (room_id, msg_id) DO NOTHING'
+        ).bind(
           roomId,
           msg.msgId,
+          seq,
           msg.version,
+          msg.epoch ?? null,
           createdAt,
           msg.ivB64,
           msg.ciphertextB64,
-          msg.senderName || null
-        )
-        .run();
+          expiresAtIso
+        ),
+        ...linkMessageAttachments(this.env.DB, roomId, msg.msgId, msg.attachmentIds || []),
+      ]);
+
+      // Lost a race with a concurrent copy of the same send
+      if (result.meta.changes === 0) {
+        if (!(await this.ackIfDuplicate(ws, roomId, msg))) {
+          this.nack(ws, msg.msgId, 'store_failed', 'Failed to store message', true);
+        }
+        return;
+      }
+
+      // Disappearing messages are deleted by the alarm once they expire
+      if (expiresAt !== null) {
+        this.ctx.storage.sql.exec(
+          'INSERT INTO expiring_messages (msg_id, room_id, expires_at) VALUES (?, ?, ?)',
+          msg.msgId,
+          roomId,
+          expiresAt
+        );
+        this.scheduleExpiry();
+        await this.scheduleAlarm();
+      }
+
+      // Confirm to the sender, then relay to everyone else
+      ws.send(JSON.stringify({ type: 'ack', msgId: msg.msgId, seq, createdAt }));
 
-      // Broadcast to all connected clients
       const broadcastMsg = {
         type: 'message',
         msgId: msg.msgId,
+        seq,
         version: msg.version,
+        epoch: msg.epoch ?? null,
         createdAt,
         ivB64: msg.ivB64,
         ciphertextB64: msg.ciphertextB64,
-        senderName: msg.senderName || null,
+        expiresAt: expiresAtIso,
       };
 
-      const messageStr = JSON.stringify(broadcastMsg);
-      this.connections.forEach((client) => {
-        if (client.readyState === 1) {
-          // OPEN
-          client.send(messageStr);
-        }
-      });
+      this.broadcast(broadcastMsg, ws);
     } catch (err) {
       console.error('Failed to store message:', err);
+      this.nack(ws, msg.msgId, 'store_failed', 'Failed to store message', true);
+    }
+  }
+
+  // If this msgId is already stored, answer the sender and return true: the original
+  // ack for an identical resend, or a conflict when the msgId is reused for other content.
+  private async ackIfDuplicate(ws: WebSocket, roomId: string, msg: ClientMessage): Promise<boolean> {
+    const stored = await this.env.DB.prepare(
+      'SELECT seq, version, created_at, iv_b64, ciphertext_b64 FROM messages WHERE room_id = ? AND msg_id = ?'
+    )
+      .bind(roomId, msg.msgId)
+      .first();
+    if (!stored) return false;
+
+    if (
+      stored.version === msg.version &&
+      stored.iv_b64 === msg.ivB64 &&
+      stored.ciphertext_b64 === msg.ciphertextB64
+    ) {
+      ws.send(JSON.stringify({ type: 'ack', msgId: msg.msgId, seq: stored.seq, createdAt: stored.created_at }));
+    } else {
+      this.nack(ws, msg.msgId, 'msg_id_conflict', 'A different message was already stored under this ID', false);
+    }
+    return true;
+  }
+
+  // Tell the sender a message was not stored. Retryable failures may succeed
+  // if the client sends the same frame again later.
+  private nack(ws: WebSocket, msgId: string, code: string, message: string, retryable: boolean): void {
+    ws.send(JSON.stringify({ type: 'nack', msgId, code, message, retryable }));
+  }
+
+  // Store an edit or delete tombstone for an existing message and relay it.
+  // The server cannot check authorship; clients verify the revision signature
+  // against the original message's key before applying it.
+  async handleRevision(ws: WebSocket, rev: ClientRevision): Promise<void> {
+    const maxMessageSize = this.env.RATE_LIMIT?.MAX_MESSAGE_SIZE || 16384;
+
+    if (!rev.revId || !rev.msgId || !rev.ivB64 || !rev.ciphertextB64 || typeof rev.version !== 'number') {
+      ws.send(JSON.stringify({ type: 'error', message: 'Missing required fields' }));
+      return;
+    }
+
+    if (rev.epoch !== undefined && !isValidEpoch(rev.epoch)) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Invalid epoch' }));
+      return;
+    }
+
+    if (rev.ciphertextB64.length > maxMessageSize) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Message too large' }));
+      return;
+    }
+
+    const roomId = await this.getRoomId();
+
+    try {
+      const target = await this.env.DB.prepare(
+        'SELECT msg_id FROM messages WHERE room_id = ? AND msg_id = ?'
+      )
+        .bind(roomId, rev.msgId)
+        .first();
+
+      if (!target) {
+        ws.send(JSON.stringify({ type: 'error', code: 'not_found', message: 'Message not found' }));
+        return;
+      }
+
+      const createdAt = new Date().toISOString();
+      await this.env.DB.prepare(
+        'INSERT INTO message_revisions (room_id, rev_id, msg_id, kind, version, epoch, created_at, iv_b64, ciphertext_b64) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+        .bind(roomId, rev.revId, rev.msgId, rev.type, rev.version, rev.epoch ?? null, createdAt, rev.ivB64, rev.ciphertextB64)
+        .run();
+
+      this.broadcast({
+        type: rev.type,
+        revId: rev.revId,
+        msgId: rev.msgId,
+        version: rev.version,
+        epoch: rev.epoch ?? null,
+        createdAt,
+        ivB64: rev.ivB64,
+        ciphertextB64: rev.ciphertextB64,
+      });
+    } catch (err) {
+      console.error('Failed to store revision:', err);
       ws.send(JSON.stringify({ type: 'error', message: 'Failed to store message' }));
     }
   }
 
+  private broadcast(data: unknown, except?: WebSocket): void {
+    const messageStr = JSON.stringify(data);
+    this.openSockets().forEach((client) => {
+      if (client !== except) {
+        client.send(messageStr);
+      }
+    });
+  }
+
   private async getRoomId(): Promise<string> {
     // The Durable Object ID name is the room ID
     // This is set when creating the Durable Object via idFromName(roomId)
     return this.ctx.id.name || 'unknown';
   }
 }
+
+function ipTag(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function getAttachment(ws: WebSocket): SocketAttachment {
+  return (ws.deserializeAttachment() as SocketAttachment | null) || { ip: 'unknown' };
+}
@@ -0,0 +1,122 @@
+// Group keys: an optional room mode where messages are encrypted under epoch keys
+// that members agree on among themselves, instead of under the passphrase key.
+//
+// Each member registers a member card with the room's RecipeRoom Durable Object:
+// its signing and ECDH public keys, sealed under the passphrase key so only
+// passphrase holders can vouch for it. When the roster changes, a member holding
+// the current epoch key proposes the next epoch with the new key wrapped for every
+// member. The server stores and relays cards and envelopes but can't read either;
+// it only checks that proposals follow each other and come from a current member.
+// Envelopes of a superseded epoch are deleted once a grace window has passed, so a
+// member's agreement key that leaks later can't unwrap old epoch keys from here.
+// Sockets prove they hold a member's signing key by signing a per-socket challenge
+// before they may register that member's card or propose an epoch for it.
+
+// A member card as the server sees it: an opaque blob under a passphrase key version
+export interface SealedMemberCard {
+  keyFingerprint: string;
+  version: number;
+  ivB64: string;
+  ciphertextB64: string;
+  // Banned members stay listed so envelopes they signed can still be verified
+  removed?: boolean;
+}
+
+// Signed, wrapped epoch key for one member, opaque to the server
+export interface EpochEnvelope {
+  epoch: number;
+  envelope: string;
+}
+
+// Rosters stay small enough to rewrap the epoch key for everyone on each change
+export const MAX_GROUP_MEMBERS = 100;
+
+// How long a superseded epoch's envelopes are kept, so members who were offline
+// during a rotation can still unwrap the key of messages sent just before it
+export const EPOCH_ENVELOPE_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MAX_CARD_CIPHERTEXT_LENGTH = 4096;
+const MAX_ENVELOPE_LENGTH = 8192;
+
+export function isValidEpoch(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+export function isValidMemberCard(card: SealedMemberCard): boolean {
+  return (
+    /^[0-9a-f]{32}$/.test(card.keyFingerprint) &&
+    Number.isInteger(card.version) &&
+    typeof card.ivB64 === 'string' &&
+    card.ivB64.length <= 64 &&
+    typeof card.ciphertextB64 === 'string' &&
+    card.ciphertextB64.length <= MAX_CARD_CIPHERTEXT_LENGTH
+  );
+}
+
+// Envelopes of an epoch proposal, keyed by recipient fingerprint
+export function isValidEnvelopes(value: unknown): value is Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entries = Object.entries(value as Record<string, unknown>);
+  return (
+    entries.length > 0 &&
+    entries.length <= MAX_GROUP_MEMBERS &&
+    entries.every(
+      ([fingerprint, envelope]) =>
+        /^[0-9a-f]{32}$/.test(fingerprint) && typeof envelope === 'string' && envelope.length <= MAX_ENVELOPE_LENGTH
+    )
+  );
+}
+
+const MEMBER_PROOF_LABEL = 'recipe-box member proof v1';
+
+function base64ToBytes(b64: string): Uint8Array {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Same fingerprint the app computes: first 32 hex chars of SHA-256 over the JWK
+// serialized with sorted keys
+async function keyFingerprint(jwk: JsonWebKey): Promise<string> {
+  const canonical = JSON.stringify(jwk, Object.keys(jwk).sort());
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(hash).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// A fresh challenge for a socket to sign before it acts for a member
+export function createMemberChallenge(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// Check that the signing key with this fingerprint signed the socket's challenge
+export async function verifyMemberProof(
+  fingerprint: string,
+  publicKeyJwk: unknown,
+  proofB64: unknown,
+  roomId: string,
+  challenge: string
+): Promise<boolean> {
+  if (!publicKeyJwk || typeof publicKeyJwk !== 'object' || typeof proofB64 !== 'string' || proofB64.length > 256) {
+    return false;
+  }
+  try {
+    const jwk = publicKeyJwk as JsonWebKey;
+    if ((await keyFingerprint(jwk)) !== fingerprint) return false;
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64ToBytes(proofB64),
+      new TextEncoder().encode(`${MEMBER_PROOF_LABEL}|${roomId}|${challenge}`)
+    );
+  } catch {
+    return false;
+  }
+}
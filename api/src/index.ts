@@ -1,12 +1,53 @@
+import { createChallenge, openSession, hasRoomAccess, isValidAuthKey, issueMemberPass } from './room-auth';
+import {
+  authenticateAdmin,
+  canManageRoom,
+  mintOwnerToken,
+  listOwnerTokens,
+  revokeOwnerToken,
+  isValidTokenLabel,
+  MAX_OWNER_TOKEN_TTL_MS,
+  AdminScope,
+} from './admin-auth';
+import { createInvite, listInvites, revokeInvite, redeemInvite, isValidInviteOptions, roomHasInvites } from './invites';
+import { recordAudit, listAudit, parseAuditTime, DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT } from './audit';
+import {
+  storeAttachment,
+  getAttachment,
+  deleteRoomAttachments,
+  isValidAttachmentId,
+  MAX_ATTACHMENT_SIZE,
+} from './attachments';
+import { isValidRetention, retentionFromRow, RetentionPolicy, DEFAULT_RETENTION } from './retention';
+import { parseKdfParams, kdfFromRow, kdfFields, KdfParams } from './kdf';
+import { isValidFingerprint, isValidNameHash, isValidBanReason, ModerationRequest } from './moderation';
+
 export { RecipeRoom } from './durable-object';
 
 export interface Env {
   RECIPE_ROOM: DurableObjectNamespace;
   DB: D1Database;
+  ATTACHMENTS: R2Bucket;
   ADMIN_TOKEN?: string;
   ENVIRONMENT?: string;
 }
 
+// AES-GCM encryption of a fixed label under a passphrase-derived key, produced by
+// the admin client. Lets joiners detect a wrong passphrase; opaque to the server.
+interface KeyCheck {
+  ivB64: string;
+  ciphertextB64: string;
+}
+
+// Room metadata (title, description, tags) encrypted under the room key of `version`
+interface EncryptedMeta {
+  version: number;
+  ivB64: string;
+  ciphertextB64: string;
+}
+
+const MAX_META_CIPHERTEXT_LENGTH = 8192;
+
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
@@ -37,15 +78,13 @@ function errorResponse(message: string, status = 400): Response {
   return jsonResponse({ error: message }, status);
 }
 
-function requireAdminAuth(request: Request, env: Env): void {
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    throw new Error('Unauthorized');
-  }
-  const token = authHeader.slice(7);
-  if (!env.ADMIN_TOKEN || token !== env.ADMIN_TOKEN) {
-    throw new Error('Unauthorized');
-  }
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+function parseHistoryLimit(value: string | null): number {
+  const limit = parseInt(value || '', 10);
+  if (!Number.isFinite(limit) || limit < 1) return DEFAULT_HISTORY_LIMIT;
+  return Math.min(limit, MAX_HISTORY_LIMIT);
 }
 
 function generateRoomId(): string {
@@ -63,6 +102,146 @@ function generateSalt(): string {
   return btoa(String.fromCharCode(...array));
 }
 
+// Salts may be chosen by the admin client (so it can derive the key and build
+// the key check before the request); require at least 16 random bytes
+function isValidSalt(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > 128) return false;
+  try {
+    return atob(value).length >= 16;
+  } catch {
+    return false;
+  }
+}
+
+function isValidKeyCheck(value: unknown): value is KeyCheck {
+  const check = value as KeyCheck | null;
+  return (
+    !!check &&
+    typeof check.ivB64 === 'string' &&
+    typeof check.ciphertextB64 === 'string' &&
+    check.ivB64.length <= 64 &&
+    check.ciphertextB64.length <= 256
+  );
+}
+
+interface KeyParams {
+  kdf: KdfParams;
+  saltB64: string;
+  keyCheck: KeyCheck | null;
+  authKeyB64: string | null;
+}
+
+// Validate the optional client-provided KDF, salt, key check and auth key of a create/rotate body
+function parseKeyParams(body: {
+  kdfAlg?: unknown;
+  kdfIters?: unknown;
+  kdfMemoryKiB?: unknown;
+  kdfParallelism?: unknown;
+  saltB64?: unknown;
+  keyCheck?: unknown;
+  authKeyB64?: unknown;
+}): KeyParams | string {
+  const kdf = parseKdfParams(body);
+  if (typeof kdf === 'string') {
+    return kdf;
+  }
+  if (body.saltB64 !== undefined && !isValidSalt(body.saltB64)) {
+    return 'Invalid salt';
+  }
+  // The key check and auth key are derived from the salt, so the client must have chosen it
+  if (body.keyCheck !== undefined) {
+    if (body.saltB64 === undefined || !isValidKeyCheck(body.keyCheck)) {
+      return 'Invalid key check';
+    }
+  }
+  if (body.authKeyB64 !== undefined) {
+    if (body.saltB64 === undefined || !isValidAuthKey(body.authKeyB64)) {
+      return 'Invalid auth key';
+    }
+  }
+  return {
+    kdf,
+    saltB64: (body.saltB64 as string | undefined) || generateSalt(),
+    keyCheck: (body.keyCheck as KeyCheck | undefined) || null,
+    authKeyB64: (body.authKeyB64 as string | undefined) || null,
+  };
+}
+
+function isValidMeta(value: unknown): value is EncryptedMeta {
+  const meta = value as EncryptedMeta | null;
+  return (
+    !!meta &&
+    Number.isInteger(meta.version) &&
+    typeof meta.ivB64 === 'string' &&
+    typeof meta.ciphertextB64 === 'string' &&
+    meta.ivB64.length <= 64 &&
+    meta.ciphertextB64.length <= MAX_META_CIPHERTEXT_LENGTH
+  );
+}
+
+function metaFromRow(row: any): EncryptedMeta | null {
+  if (!row || !row.meta_iv_b64 || !row.meta_ciphertext_b64) return null;
+  return { version: row.meta_version, ivB64: row.meta_iv_b64, ciphertextB64: row.meta_ciphertext_b64 };
+}
+
+// Hand a room's retention policy to its Durable Object, which enforces it on an alarm
+async function applyRetention(env: Env, roomId: string, retention: RetentionPolicy): Promise<void> {
+  const stub = env.RECIPE_ROOM.get(env.RECIPE_ROOM.idFromName(roomId));
+  const res = await stub.fetch('https://recipe-room/internal/retention', {
+    method: 'POST',
+    body: JSON.stringify({ roomId, retention }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to apply retention: ${res.status}`);
+  }
+}
+
+// Wipe a deleted room's Durable Object state and close its sockets
+async function resetRoom(env: Env, roomId: string): Promise<void> {
+  const stub = env.RECIPE_ROOM.get(env.RECIPE_ROOM.idFromName(roomId));
+  const res = await stub.fetch('https://recipe-room/internal/reset', { method: 'POST' });
+  if (!res.ok) {
+    throw new Error(`Failed to reset room: ${res.status}`);
+  }
+}
+
+// Forward a moderation action to the room's Durable Object. Returns its response
+// (404 for an unknown ban or claim); other failures throw.
+async function moderateRoom(env: Env, roomId: string, req: ModerationRequest): Promise<Response> {
+  const stub = env.RECIPE_ROOM.get(env.RECIPE_ROOM.idFromName(roomId));
+  const res = await stub.fetch('https://recipe-room/internal/moderation', {
+    method: 'POST',
+    body: JSON.stringify({ roomId, ...req }),
+  });
+  if (!res.ok && res.status !== 404) {
+    throw new Error(`Failed to moderate room: ${res.status}`);
+  }
+  return res;
+}
+
+// Audit-log summary of a rooms row: versions and settings, no key material
+function roomSummary(row: any): Record<string, unknown> | null {
+  if (!row) return null;
+  return {
+    version: row.version,
+    title: row.title,
+    encryptedMeta: !!row.meta_ciphertext_b64,
+    metaVersion: row.meta_version,
+    retention: retentionFromRow(row),
+    groupKeys: !!row.group_keys,
+  };
+}
+
+// Key check of a key version, for the public room info. A key check is known
+// plaintext under the passphrase key, so versions with an auth key keep theirs to
+// themselves: handing it out would let anyone guess the passphrase offline
+// instead of through auth challenges. Clients check passphrases for those
+// versions by answering a challenge.
+function publicKeyCheck(row: any): KeyCheck | null {
+  if (!row || row.auth_key_b64 || !row.check_iv_b64 || !row.check_ciphertext_b64) return null;
+  return { ivB64: row.check_iv_b64, ciphertextB64: row.check_ciphertext_b64 };
+}
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
@@ -71,25 +250,77 @@ export default {
       return corsResponse(new Response(null, { status: 204 }));
     }
 
-    // Admin endpoints
+    // Admin endpoints. The global admin token reaches everything; owner tokens
+    // only their own room, and never room creation, deletion or token management.
     if (url.pathname.startsWith('/api/admin/')) {
+      let scope: AdminScope | null;
       try {
-        requireAdminAuth(request, env);
+        scope = await authenticateAdmin(request, env);
       } catch (err) {
+        return errorResponse('Failed to authenticate', 500);
+      }
+      if (!scope) {
         return errorResponse('Unauthorized', 401);
       }
+      const isGlobal = scope.kind === 'global';
+
+      // GET /api/admin/session - Describe the presented token's scope
+      if (url.pathname === '/api/admin/session' && request.method === 'GET') {
+        return jsonResponse(
+          scope.kind === 'global'
+            ? { scope: 'global' }
+            : { scope: 'room', roomId: scope.roomId, expiresAt: scope.expiresAt }
+        );
+      }
+
+      // GET /api/admin/audit - Audit log, newest first. Filters: roomId, action,
+      // actor, since, until; page with limit and before=<nextBefore of the previous page>.
+      // Owner tokens only see their own room's entries.
+      if (url.pathname === '/api/admin/audit' && request.method === 'GET') {
+        const limitParam = parseInt(url.searchParams.get('limit') || '', 10);
+        const beforeParam = parseInt(url.searchParams.get('before') || '', 10);
+        const sinceParam = url.searchParams.get('since');
+        const untilParam = url.searchParams.get('until');
+        const since = sinceParam ? parseAuditTime(sinceParam) : undefined;
+        const until = untilParam ? parseAuditTime(untilParam) : undefined;
+        if (since === null || until === null) {
+          return errorResponse('since and until must be ISO 8601 times', 400);
+        }
+        try {
+          const page = await listAudit(env, {
+            roomId: scope.kind === 'room' ? scope.roomId : url.searchParams.get('roomId') || undefined,
+            action: url.searchParams.get('action') || undefined,
+            actor: url.searchParams.get('actor') || undefined,
+            since,
+            until,
+            beforeId: Number.isFinite(beforeParam) ? beforeParam : undefined,
+            limit: Number.isFinite(limitParam) && limitParam > 0
+              ? Math.min(limitParam, MAX_AUDIT_LIMIT)
+              : DEFAULT_AUDIT_LIMIT,
+          });
+          return jsonResponse(page);
+        } catch (err) {
+          return errorResponse('Failed to fetch audit log', 500);
+        }
+      }
 
-      // GET /api/admin/rooms - List all rooms
+      // GET /api/admin/rooms - List all rooms (or just the owner's room)
       if (url.pathname === '/api/admin/rooms' && request.method === 'GET') {
         try {
+          const ownRoom = scope.kind === 'room' ? scope.roomId : null;
           const result = await env.DB.prepare(
-            'SELECT r.room_id, r.title, r.version, r.created_at, COUNT(m.msg_id) as message_count FROM rooms r LEFT JOIN messages m ON r.room_id = m.room_id GROUP BY r.room_id ORDER BY r.created_at DESC'
-          ).all();
+            'SELECT r.room_id, r.title, r.meta_version, r.meta_iv_b64, r.meta_ciphertext_b64, r.version, r.retention_mode, r.retention_value, r.group_keys, r.created_at, COUNT(m.msg_id) as message_count FROM rooms r LEFT JOIN messages m ON r.room_id = m.room_id WHERE ?1 IS NULL OR r.room_id = ?1 GROUP BY r.room_id ORDER BY r.created_at DESC'
+          )
+            .bind(ownRoom)
+            .all();
 
           const rooms = (result.results || []).map((row: any) => ({
             roomId: row.room_id,
             title: row.title,
+            meta: metaFromRow(row),
             version: row.version,
+            retention: retentionFromRow(row),
+            groupKeys: !!row.group_keys,
             createdAt: row.created_at,
             messageCount: row.message_count,
           }));
@@ -102,8 +333,31 @@ export default {
 
       // POST /api/admin/rooms - Create new room
       if (url.pathname === '/api/admin/rooms' && request.method === 'POST') {
+        if (!isGlobal) {
+          return errorResponse('Forbidden', 403);
+        }
         try {
-          const body = await request.json() as { title?: string; slug?: string; kdfIters?: number };
+          const body = await request.json() as {
+            title?: string;
+            slug?: string;
+            kdfAlg?: string;
+            kdfIters?: number;
+            kdfMemoryKiB?: number;
+            kdfParallelism?: number;
+            saltB64?: string;
+            keyCheck?: KeyCheck;
+            authKeyB64?: string;
+            meta?: EncryptedMeta;
+          };
+
+          const keyParams = parseKeyParams(body);
+          if (typeof keyParams === 'string') {
+            return errorResponse(keyParams, 400);
+          }
+          // New rooms start at key version 1
+          if (body.meta !== undefined && (!isValidMeta(body.meta) || body.meta.version !== 1)) {
+            return errorResponse('Invalid metadata', 400);
+          }
 
           let roomId: string;
           if (body.slug) {
@@ -119,35 +373,317 @@ export default {
           } else {
             roomId = generateRoomId();
           }
-          const saltB64 = generateSalt();
-          const kdfIters = body.kdfIters || 100000;
-          const title = body.title || null;
+          const { kdf, saltB64, keyCheck, authKeyB64 } = keyParams;
+          // Plaintext titles are only accepted from clients that don't encrypt metadata
+          const meta = body.meta || null;
+          const title = meta ? null : body.title || null;
           const createdAt = new Date().toISOString();
 
-          await env.DB.prepare(
-            'INSERT INTO rooms (room_id, title, salt_b64, kdf_iters, version, created_at) VALUES (?, ?, ?, ?, 1, ?)'
-          )
-            .bind(roomId, title, saltB64, kdfIters, createdAt)
-            .run();
+          await env.DB.batch([
+            env.DB.prepare(
+              'INSERT INTO rooms (room_id, title, meta_version, meta_iv_b64, meta_ciphertext_b64, salt_b64, kdf_alg, kdf_iters, kdf_memory_kib, kdf_parallelism, version, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)'
+            ).bind(roomId, title, meta?.version ?? null, meta?.ivB64 ?? null, meta?.ciphertextB64 ?? null, saltB64, kdf.alg, kdf.iterations, kdf.memoryKiB, kdf.parallelism, createdAt),
+            env.DB.prepare(
+              'INSERT INTO room_keys (room_id, version, salt_b64, kdf_alg, kdf_iters, kdf_memory_kib, kdf_parallelism, check_iv_b64, check_ciphertext_b64, auth_key_b64, created_at) VALUES (?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+            ).bind(roomId, saltB64, kdf.alg, kdf.iterations, kdf.memoryKiB, kdf.parallelism, keyCheck?.ivB64 ?? null, keyCheck?.ciphertextB64 ?? null, authKeyB64, createdAt),
+          ]);
+
+          await recordAudit(env, request, scope, {
+            action: 'room.create',
+            roomId,
+            after: { version: 1, kdf, title, encryptedMeta: !!meta, authRequired: !!authKeyB64 },
+          });
 
           return jsonResponse({
             roomId,
             title,
+            meta,
             saltB64,
-            kdfIters,
+            ...kdfFields(kdf),
             version: 1,
+            keyCheck,
+            // Lets the creating browser into the room once it has invites
+            memberPass: await issueMemberPass(env, roomId),
           });
         } catch (err) {
           return errorResponse('Failed to create room', 500);
         }
       }
 
+      // POST /api/admin/rooms/:roomId/tokens - Mint an owner token for a room
+      // GET /api/admin/rooms/:roomId/tokens - List a room's owner tokens
+      const tokensMatch = url.pathname.match(/^\/api\/admin\/rooms\/([^/]+)\/tokens$/);
+      if (tokensMatch && (request.method === 'POST' || request.method === 'GET')) {
+        if (!isGlobal) {
+          return errorResponse('Forbidden', 403);
+        }
+        const roomId = decodeURIComponent(tokensMatch[1]);
+        try {
+          const room = await env.DB.prepare('SELECT room_id FROM rooms WHERE room_id = ?')
+            .bind(roomId)
+            .first();
+          if (!room) {
+            return errorResponse('Room not found', 404);
+          }
+
+          if (request.method === 'GET') {
+            return jsonResponse({ tokens: await listOwnerTokens(env, roomId) });
+          }
+
+          const body = await request.json() as { label?: string; ttlMs?: number };
+          if (body.label !== undefined && !isValidTokenLabel(body.label)) {
+            return errorResponse('Invalid label', 400);
+          }
+          if (
+            body.ttlMs !== undefined &&
+            (!Number.isInteger(body.ttlMs) || body.ttlMs < 1 || body.ttlMs > MAX_OWNER_TOKEN_TTL_MS)
+          ) {
+            return errorResponse('Invalid expiry', 400);
+          }
+
+          const { token, info } = await mintOwnerToken(env, roomId, body);
+          await recordAudit(env, request, scope, {
+            action: 'token.create',
+            roomId,
+            after: { tokenId: info.tokenId, label: info.label, expiresAt: info.expiresAt },
+          });
+          return jsonResponse({ token, ...info });
+        } catch (err) {
+          return errorResponse('Failed to manage owner tokens', 500);
+        }
+      }
+
+      // DELETE /api/admin/tokens/:tokenId - Revoke an owner token
+      const revokeMatch = url.pathname.match(/^\/api\/admin\/tokens\/([^/]+)$/);
+      if (revokeMatch && request.method === 'DELETE') {
+        if (!isGlobal) {
+          return errorResponse('Forbidden', 403);
+        }
+        const tokenId = decodeURIComponent(revokeMatch[1]);
+        try {
+          const roomId = await revokeOwnerToken(env, tokenId);
+          if (!roomId) {
+            return errorResponse('Token not found', 404);
+          }
+          await recordAudit(env, request, scope, {
+            action: 'token.revoke',
+            roomId,
+            before: { tokenId, revoked: false },
+            after: { tokenId, revoked: true },
+          });
+          return jsonResponse({ success: true });
+        } catch (err) {
+          return errorResponse('Failed to revoke token', 500);
+        }
+      }
+
+      // POST /api/admin/rooms/:roomId/invites - Issue an invite token for join links
+      // GET /api/admin/rooms/:roomId/invites - List a room's invites
+      const invitesMatch = url.pathname.match(/^\/api\/admin\/rooms\/([^/]+)\/invites$/);
+      if (invitesMatch && (request.method === 'POST' || request.method === 'GET')) {
+        const roomId = decodeURIComponent(invitesMatch[1]);
+        if (!canManageRoom(scope, roomId)) {
+          return errorResponse('Forbidden', 403);
+        }
+        try {
+          const room = await env.DB.prepare('SELECT room_id FROM rooms WHERE room_id = ?')
+            .bind(roomId)
+            .first();
+          if (!room) {
+            return errorResponse('Room not found', 404);
+          }
+
+          if (request.method === 'GET') {
+            return jsonResponse({ invites: await listInvites(env, roomId) });
+          }
+
+          const body = await request.json();
+          if (!isValidInviteOptions(body)) {
+            return errorResponse('Invalid invite options', 400);
+          }
+
+          const { token, info } = await createInvite(env, roomId, body);
+          await recordAudit(env, request, scope, {
+            action: 'invite.create',
+            roomId,
+            after: { inviteId: info.inviteId, label: info.label, expiresAt: info.expiresAt, maxUses: info.maxUses },
+          });
+          return jsonResponse({ token, ...info });
+        } catch (err) {
+          return errorResponse('Failed to manage invites', 500);
+        }
+      }
+
+      // DELETE /api/admin/invites/:inviteId - Revoke an invite
+      const revokeInviteMatch = url.pathname.match(/^\/api\/admin\/invites\/([^/]+)$/);
+      if (revokeInviteMatch && request.method === 'DELETE') {
+        const inviteId = decodeURIComponent(revokeInviteMatch[1]);
+        try {
+          const invite = await env.DB.prepare('SELECT room_id FROM room_invites WHERE invite_id = ?')
+            .bind(inviteId)
+            .first();
+          if (invite && !canManageRoom(scope, invite.room_id as string)) {
+            return errorResponse('Forbidden', 403);
+          }
+          const roomId = invite ? await revokeInvite(env, inviteId) : null;
+          if (!roomId) {
+            return errorResponse('Invite not found', 404);
+          }
+          await recordAudit(env, request, scope, {
+            action: 'invite.revoke',
+            roomId,
+            before: { inviteId, revoked: false },
+            after: { inviteId, revoked: true },
+          });
+          return jsonResponse({ success: true });
+        } catch (err) {
+          return errorResponse('Failed to revoke invite', 500);
+        }
+      }
+
+      // GET /api/admin/rooms/:roomId/moderation - List banned keys and name claims
+      // DELETE /api/admin/rooms/:roomId/messages/:msgId - Remove a message for everyone
+      // POST /api/admin/rooms/:roomId/bans - Ban a key fingerprint and disconnect its sockets
+      // DELETE /api/admin/rooms/:roomId/bans/:keyFingerprint - Lift a ban
+      // DELETE /api/admin/rooms/:roomId/claims/:nameHash - Release a name claim
+      // PUT /api/admin/rooms/:roomId/claims/:nameHash - Reassign a name claim to another key
+      const moderationMatch = url.pathname.match(
+        /^\/api\/admin\/rooms\/([^/]+)\/(moderation|messages|bans|claims)(?:\/([^/]+))?$/
+      );
+      if (moderationMatch) {
+        const roomId = decodeURIComponent(moderationMatch[1]);
+        const resource = moderationMatch[2];
+        const target = moderationMatch[3] === undefined ? null : decodeURIComponent(moderationMatch[3]);
+        if (!canManageRoom(scope, roomId)) {
+          return errorResponse('Forbidden', 403);
+        }
+        try {
+          const room = await env.DB.prepare('SELECT room_id FROM rooms WHERE room_id = ?')
+            .bind(roomId)
+            .first();
+          if (!room) {
+            return errorResponse('Room not found', 404);
+          }
+
+          if (resource === 'moderation' && target === null && request.method === 'GET') {
+            const res = await moderateRoom(env, roomId, { op: 'list' });
+            return jsonResponse(await res.json());
+          }
+
+          if (resource === 'messages' && target !== null && request.method === 'DELETE') {
+            const message = await env.DB.prepare('SELECT seq, created_at FROM messages WHERE room_id = ? AND msg_id = ?')
+              .bind(roomId, target)
+              .first();
+            if (!message) {
+              return errorResponse('Message not found', 404);
+            }
+            await moderateRoom(env, roomId, { op: 'remove_messages', msgIds: [target] });
+            await recordAudit(env, request, scope, {
+              action: 'message.remove',
+              roomId,
+              before: { msgId: target, seq: message.seq, createdAt: message.created_at },
+              after: null,
+            });
+            return jsonResponse({ success: true });
+          }
+
+          if (resource === 'bans' && target === null && request.method === 'POST') {
+            const body = await request.json() as { keyFingerprint?: string; reason?: string };
+            if (!isValidFingerprint(body.keyFingerprint)) {
+              return errorResponse('Invalid key fingerprint', 400);
+            }
+            if (body.reason !== undefined && !isValidBanReason(body.reason)) {
+              return errorResponse('Invalid reason', 400);
+            }
+            const reason = body.reason?.trim() || null;
+            await moderateRoom(env, roomId, { op: 'ban', keyFingerprint: body.keyFingerprint, reason });
+            await recordAudit(env, request, scope, {
+              action: 'key.ban',
+              roomId,
+              after: { keyFingerprint: body.keyFingerprint, reason },
+            });
+            return jsonResponse({ success: true });
+          }
+
+          if (resource === 'bans' && target !== null && request.method === 'DELETE') {
+            const res = await moderateRoom(env, roomId, { op: 'unban', keyFingerprint: target });
+            if (res.status === 404) {
+              return errorResponse('Ban not found', 404);
+            }
+            await recordAudit(env, request, scope, {
+              action: 'key.unban',
+              roomId,
+              before: { keyFingerprint: target },
+              after: null,
+            });
+            return jsonResponse({ success: true });
+          }
+
+          if (resource === 'claims' && target !== null && (request.method === 'DELETE' || request.method === 'PUT')) {
+            if (!isValidNameHash(target)) {
+              return errorResponse('Invalid name hash', 400);
+            }
+            let keyFingerprint: string | null = null;
+            if (request.method === 'PUT') {
+              const body = await request.json() as { keyFingerprint?: string };
+              if (!isValidFingerprint(body.keyFingerprint)) {
+                return errorResponse('Invalid key fingerprint', 400);
+              }
+              keyFingerprint = body.keyFingerprint;
+            }
+            const res = await moderateRoom(
+              env,
+              roomId,
+              keyFingerprint === null
+                ? { op: 'release_claim', nameHash: target }
+                : { op: 'reassign_claim', nameHash: target, keyFingerprint }
+            );
+            if (res.status === 404) {
+              return errorResponse('Name claim not found', 404);
+            }
+            await recordAudit(env, request, scope, {
+              action: keyFingerprint === null ? 'claim.release' : 'claim.reassign',
+              roomId,
+              before: { nameHash: target },
+              after: keyFingerprint === null ? null : { nameHash: target, keyFingerprint },
+            });
+            return jsonResponse({ success: true });
+          }
+
+          return errorResponse('Not found', 404);
+        } catch (err) {
+          return errorResponse('Failed to moderate room', 500);
+        }
+      }
+
       // POST /api/admin/rooms/:roomId/rotate - Rotate passphrase
       const rotateMatch = url.pathname.match(/^\/api\/admin\/rooms\/([^/]+)\/rotate$/);
       if (rotateMatch && request.method === 'POST') {
         const roomId = decodeURIComponent(rotateMatch[1]);
+        if (!canManageRoom(scope, roomId)) {
+          return errorResponse('Forbidden', 403);
+        }
         try {
-          const body = await request.json() as { kdfIters?: number };
+          const body = await request.json() as {
+            kdfAlg?: string;
+            kdfIters?: number;
+            kdfMemoryKiB?: number;
+            kdfParallelism?: number;
+            saltB64?: string;
+            keyCheck?: KeyCheck;
+            authKeyB64?: string;
+            // Metadata re-encrypted under the new key version
+            meta?: EncryptedMeta;
+          };
+
+          const keyParams = parseKeyParams(body);
+          if (typeof keyParams === 'string') {
+            return errorResponse(keyParams, 400);
+          }
+          if (body.meta !== undefined && !isValidMeta(body.meta)) {
+            return errorResponse('Invalid metadata', 400);
+          }
+
           const room = await env.DB.prepare('SELECT * FROM rooms WHERE room_id = ?')
             .bind(roomId)
             .first();
@@ -157,21 +693,39 @@ export default {
           }
 
           const newVersion = (room.version as number) + 1;
-          const newSalt = generateSalt();
-          const kdfIters = body.kdfIters || 100000;
+          // The client encrypted against the version it expected; a concurrent rotation invalidates it
+          if (body.meta && body.meta.version !== newVersion) {
+            return errorResponse('Recipe was rotated concurrently', 409);
+          }
+          const { kdf, saltB64: newSalt, keyCheck, authKeyB64 } = keyParams;
+          const meta = body.meta || metaFromRow(room);
+          const title = body.meta ? null : room.title;
 
-          await env.DB.prepare(
-            'UPDATE rooms SET salt_b64 = ?, kdf_iters = ?, version = ? WHERE room_id = ?'
-          )
-            .bind(newSalt, kdfIters, newVersion, roomId)
-            .run();
+          // Keep the previous salts in room_keys so older messages stay decryptable
+          await env.DB.batch([
+            env.DB.prepare(
+              'UPDATE rooms SET salt_b64 = ?, kdf_alg = ?, kdf_iters = ?, kdf_memory_kib = ?, kdf_parallelism = ?, version = ?, title = ?, meta_version = ?, meta_iv_b64 = ?, meta_ciphertext_b64 = ? WHERE room_id = ?'
+            ).bind(newSalt, kdf.alg, kdf.iterations, kdf.memoryKiB, kdf.parallelism, newVersion, title, meta?.version ?? null, meta?.ivB64 ?? null, meta?.ciphertextB64 ?? null, roomId),
+            env.DB.prepare(
+              'INSERT INTO room_keys (room_id, version, salt_b64, kdf_alg, kdf_iters, kdf_memory_kib, kdf_parallelism, check_iv_b64, check_ciphertext_b64, auth_key_b64, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+            ).bind(roomId, newVersion, newSalt, kdf.alg, kdf.iterations, kdf.memoryKiB, kdf.parallelism, keyCheck?.ivB64 ?? null, keyCheck?.ciphertextB64 ?? null, authKeyB64, new Date().toISOString()),
+          ]);
+
+          await recordAudit(env, request, scope, {
+            action: 'room.rotate',
+            roomId,
+            before: { version: room.version, kdf: kdfFromRow(room) },
+            after: { version: newVersion, kdf, encryptedMeta: !!meta, authRequired: !!authKeyB64 },
+          });
 
           return jsonResponse({
             roomId,
-            title: room.title,
+            title,
+            meta,
             saltB64: newSalt,
-            kdfIters,
+            ...kdfFields(kdf),
             version: newVersion,
+            keyCheck,
           });
         } catch (err) {
           return errorResponse('Failed to rotate passphrase', 500);
@@ -182,11 +736,79 @@ export default {
       const updateMatch = url.pathname.match(/^\/api\/admin\/rooms\/([^/]+)$/);
       if (updateMatch && request.method === 'PATCH') {
         const roomId = decodeURIComponent(updateMatch[1]);
+        if (!canManageRoom(scope, roomId)) {
+          return errorResponse('Forbidden', 403);
+        }
         try {
-          const body = await request.json() as { title?: string };
-          await env.DB.prepare('UPDATE rooms SET title = ? WHERE room_id = ?')
-            .bind(body.title || null, roomId)
-            .run();
+          const body = await request.json() as {
+            title?: string;
+            meta?: EncryptedMeta;
+            retention?: RetentionPolicy;
+            groupKeys?: boolean;
+          };
+          // Retention deletes history, so it stays with global admins
+          if (body.retention !== undefined && !isGlobal) {
+            return errorResponse('Forbidden', 403);
+          }
+          const before = await env.DB.prepare('SELECT * FROM rooms WHERE room_id = ?')
+            .bind(roomId)
+            .first();
+          if (!before) {
+            return errorResponse('Room not found', 404);
+          }
+          if (body.meta !== undefined && !isValidMeta(body.meta)) {
+            return errorResponse('Invalid metadata', 400);
+          }
+          // Metadata under an older key version would be unreadable to members who
+          // only hold the current passphrase
+          if (body.meta && body.meta.version !== before.version) {
+            return errorResponse('Metadata is not encrypted under the current key version', 409);
+          }
+          if (body.retention !== undefined) {
+            if (!isValidRetention(body.retention)) {
+              return errorResponse('Invalid retention policy', 400);
+            }
+            const retention = body.retention.mode === 'forever' ? DEFAULT_RETENTION : body.retention;
+            await env.DB.prepare('UPDATE rooms SET retention_mode = ?, retention_value = ? WHERE room_id = ?')
+              .bind(retention.mode, retention.value, roomId)
+              .run();
+            await applyRetention(env, roomId, retention);
+          }
+          if (body.groupKeys !== undefined) {
+            if (typeof body.groupKeys !== 'boolean') {
+              return errorResponse('Invalid groupKeys', 400);
+            }
+            await env.DB.prepare('UPDATE rooms SET group_keys = ? WHERE room_id = ?')
+              .bind(body.groupKeys ? 1 : 0, roomId)
+              .run();
+          }
+          if (body.meta !== undefined) {
+            // Encrypted metadata replaces any legacy plaintext title. Only while the
+            // version is still current, in case a rotation landed in between.
+            const meta = body.meta;
+            const result = await env.DB.prepare(
+              'UPDATE rooms SET title = NULL, meta_version = ?, meta_iv_b64 = ?, meta_ciphertext_b64 = ? WHERE room_id = ? AND version = ?'
+            )
+              .bind(meta.version, meta.ivB64, meta.ciphertextB64, roomId, meta.version)
+              .run();
+            if (result.meta.changes === 0) {
+              return errorResponse('Metadata is not encrypted under the current key version', 409);
+            }
+          } else if (body.title !== undefined || (body.retention === undefined && body.groupKeys === undefined)) {
+            await env.DB.prepare('UPDATE rooms SET title = ? WHERE room_id = ?')
+              .bind(body.title || null, roomId)
+              .run();
+          }
+
+          const after = await env.DB.prepare('SELECT * FROM rooms WHERE room_id = ?')
+            .bind(roomId)
+            .first();
+          await recordAudit(env, request, scope, {
+            action: 'room.update',
+            roomId,
+            before: roomSummary(before),
+            after: roomSummary(after),
+          });
           return jsonResponse({ success: true });
         } catch (err) {
           return errorResponse('Failed to update room', 500);
@@ -197,22 +819,46 @@ export default {
       const deleteMatch = url.pathname.match(/^\/api\/admin\/rooms\/([^/]+)$/);
       if (deleteMatch && request.method === 'DELETE') {
         const roomId = decodeURIComponent(deleteMatch[1]);
+        if (!isGlobal) {
+          return errorResponse('Forbidden', 403);
+        }
         try {
-          const room = await env.DB.prepare('SELECT room_id FROM rooms WHERE room_id = ?')
+          const room = await env.DB.prepare('SELECT * FROM rooms WHERE room_id = ?')
             .bind(roomId)
             .first();
 
           if (!room) {
             return errorResponse('Room not found', 404);
           }
-
-          // Delete messages first, then the room
-          await env.DB.prepare('DELETE FROM messages WHERE room_id = ?')
-            .bind(roomId)
-            .run();
-          await env.DB.prepare('DELETE FROM rooms WHERE room_id = ?')
+          const messageCount = await env.DB.prepare('SELECT COUNT(*) AS count FROM messages WHERE room_id = ?')
             .bind(roomId)
-            .run();
+            .first('count');
+
+          // Delete sessions, revisions, messages and key versions, then the room, all or nothing
+          await env.DB.batch(
+            [
+              'room_sessions',
+              'auth_challenges',
+              'owner_tokens',
+              'room_invites',
+              'member_passes',
+              'room_keys',
+              'message_revisions',
+              'message_attachments',
+              'messages',
+              'rooms',
+            ].map((table) => env.DB.prepare(`DELETE FROM ${table} WHERE room_id = ?`).bind(roomId))
+          );
+          await deleteRoomAttachments(env, roomId);
+          // Clear group keys, bans, claims, counters and timers, and disconnect members
+          await resetRoom(env, roomId);
+
+          await recordAudit(env, request, scope, {
+            action: 'room.delete',
+            roomId,
+            before: { ...roomSummary(room), messageCount },
+            after: null,
+          });
 
           return jsonResponse({ success: true, roomId });
         } catch (err) {
@@ -236,53 +882,190 @@ export default {
           return errorResponse('Room not found', 404);
         }
 
+        const keys = await env.DB.prepare(
+          'SELECT version, salt_b64, kdf_alg, kdf_iters, kdf_memory_kib, kdf_parallelism, check_iv_b64, check_ciphertext_b64, auth_key_b64 FROM room_keys WHERE room_id = ? ORDER BY version ASC'
+        )
+          .bind(roomId)
+          .all();
+        const keyRows = (keys.results || []) as any[];
+        const currentKey = keyRows.find((row) => row.version === room.version);
+
         return jsonResponse({
           roomId: room.room_id,
           title: room.title,
+          meta: metaFromRow(room),
+          retention: retentionFromRow(room),
+          // Messages go under member-agreed epoch keys instead of the passphrase key
+          groupKeys: !!room.group_keys,
           saltB64: room.salt_b64,
-          kdfIters: room.kdf_iters,
+          ...kdfFields(kdfFromRow(room)),
           version: room.version,
+          keyCheck: publicKeyCheck(currentKey),
+          // History and WebSocket access need a membership proof for this version
+          authRequired: !!currentKey?.auth_key_b64,
+          // Newcomers need an invite link as well as the passphrase
+          inviteOnly: await roomHasInvites(env, roomId),
+          keys: keyRows.map((row) => ({
+            version: row.version,
+            saltB64: row.salt_b64,
+            ...kdfFields(kdfFromRow(row)),
+            keyCheck: publicKeyCheck(row),
+          })),
         }, 200, 60);
       } catch (err) {
         return errorResponse('Failed to fetch room', 500);
       }
     }
 
+    // POST /api/rooms/:roomId/auth/challenge - Issue a one-time membership challenge
+    const challengeMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/auth\/challenge$/);
+    if (challengeMatch && request.method === 'POST') {
+      const roomId = decodeURIComponent(challengeMatch[1]);
+      try {
+        const challenge = await createChallenge(env, roomId);
+        if (!challenge) {
+          return errorResponse('Room not found', 404);
+        }
+        return jsonResponse(challenge);
+      } catch (err) {
+        return errorResponse('Failed to create challenge', 500);
+      }
+    }
+
+    // POST /api/rooms/:roomId/auth - Answer a challenge and receive a session token
+    const authMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/auth$/);
+    if (authMatch && request.method === 'POST') {
+      const roomId = decodeURIComponent(authMatch[1]);
+      try {
+        const body = await request.json() as { nonce?: string; proofB64?: string; memberPass?: string };
+        if (
+          typeof body.nonce !== 'string' ||
+          typeof body.proofB64 !== 'string' ||
+          (body.memberPass !== undefined && typeof body.memberPass !== 'string')
+        ) {
+          return errorResponse('Missing required fields', 400);
+        }
+
+        const session = await openSession(env, roomId, body.nonce, body.proofB64, body.memberPass);
+        if (!session) {
+          return errorResponse('Unauthorized', 401);
+        }
+        if (session === 'invite_required') {
+          return jsonResponse({ error: 'An invite is required to join this room', reason: session }, 403);
+        }
+        return jsonResponse(session);
+      } catch (err) {
+        return errorResponse('Failed to authenticate', 500);
+      }
+    }
+
+    // POST /api/rooms/:roomId/invites/redeem - Use up one redemption of an invite link
+    const redeemMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/invites\/redeem$/);
+    if (redeemMatch && request.method === 'POST') {
+      const roomId = decodeURIComponent(redeemMatch[1]);
+      try {
+        const body = await request.json() as { token?: string };
+        if (typeof body.token !== 'string') {
+          return errorResponse('Missing required fields', 400);
+        }
+
+        const result = await redeemInvite(env, roomId, body.token);
+        if (result === 'ok') {
+          return jsonResponse({ success: true, memberPass: await issueMemberPass(env, roomId) });
+        }
+        if (result === 'invalid') {
+          return errorResponse('Invite not found', 404);
+        }
+        // Gone: the invite existed but can't be used any more
+        return jsonResponse({ error: 'Invite no longer valid', reason: result }, 410);
+      } catch (err) {
+        return errorResponse('Failed to redeem invite', 500);
+      }
+    }
+
     // GET /api/rooms/:roomId/history - Get message history
     const historyMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/history$/);
     if (historyMatch && request.method === 'GET') {
       const roomId = decodeURIComponent(historyMatch[1]);
-      const limit = parseInt(url.searchParams.get('limit') || '50');
+      const limit = parseHistoryLimit(url.searchParams.get('limit'));
       const before = url.searchParams.get('before');
+      const beforeSeq = url.searchParams.get('beforeSeq');
+      const afterSeq = url.searchParams.get('afterSeq');
       const version = url.searchParams.get('version');
 
       try {
-        let query = 'SELECT * FROM messages WHERE room_id = ?';
-        const bindings: any[] = [roomId];
+        if (!(await hasRoomAccess(request, env, roomId))) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        // Disappearing messages drop out of history as soon as they expire,
+        // even before the room's Durable Object gets around to deleting them
+        let query = 'SELECT * FROM messages WHERE room_id = ? AND (expires_at IS NULL OR expires_at > ?)';
+        const bindings: any[] = [roomId, new Date().toISOString()];
 
         if (version) {
           query += ' AND version = ?';
           bindings.push(parseInt(version));
         }
 
-        if (before) {
-          query += ' AND created_at < ?';
-          bindings.push(before);
-        }
+        if (afterSeq) {
+          // Catch-up after reconnect: everything newer than the last seen seq, oldest first
+          query += ' AND seq > ? ORDER BY seq ASC LIMIT ?';
+          bindings.push(parseInt(afterSeq), limit);
+        } else {
+          // Older pages are keyed by seq, which is unique per room, so pages
+          // never skip or repeat messages that share a timestamp
+          if (beforeSeq) {
+            query += ' AND seq < ?';
+            bindings.push(parseInt(beforeSeq));
+          } else if (before) {
+            query += ' AND created_at < ?';
+            bindings.push(before);
+          }
 
-        query += ' ORDER BY created_at DESC LIMIT ?';
-        bindings.push(limit);
+          query += ' ORDER BY seq DESC LIMIT ?';
+          bindings.push(limit);
+        }
 
         const result = await env.DB.prepare(query).bind(...bindings).all();
 
-        // Reverse so messages are oldest-first (chat order)
-        const messages = (result.results || []).reverse().map((row: any) => ({
+        // Messages are returned oldest-first (chat order)
+        const rows = afterSeq ? result.results || [] : (result.results || []).reverse();
+
+        // Attach edit/delete revisions for the returned page, oldest first
+        const revisionsByMsg = new Map<string, any[]>();
+        if (rows.length > 0) {
+          const revResult = await env.DB.prepare(
+            'SELECT * FROM message_revisions WHERE room_id = ? AND msg_id IN (SELECT value FROM json_each(?)) ORDER BY created_at ASC'
+          )
+            .bind(roomId, JSON.stringify(rows.map((row: any) => row.msg_id)))
+            .all();
+
+          for (const rev of (revResult.results || []) as any[]) {
+            const list = revisionsByMsg.get(rev.msg_id) || [];
+            list.push({
+              revId: rev.rev_id,
+              kind: rev.kind,
+              version: rev.version,
+              epoch: rev.epoch,
+              createdAt: rev.created_at,
+              ivB64: rev.iv_b64,
+              ciphertextB64: rev.ciphertext_b64,
+            });
+            revisionsByMsg.set(rev.msg_id, list);
+          }
+        }
+
+        const messages = rows.map((row: any) => ({
           msgId: row.msg_id,
+          seq: row.seq,
           version: row.version,
+          epoch: row.epoch,
           createdAt: row.created_at,
           ivB64: row.iv_b64,
           ciphertextB64: row.ciphertext_b64,
-          senderName: row.sender_name,
+          expiresAt: row.expires_at,
+          revisions: revisionsByMsg.get(row.msg_id) || [],
         }));
 
         return jsonResponse({ messages });
@@ -291,6 +1074,66 @@ export default {
       }
     }
 
+    // POST /api/rooms/:roomId/attachments - Upload an encrypted attachment
+    const uploadMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/attachments$/);
+    if (uploadMatch && request.method === 'POST') {
+      const roomId = decodeURIComponent(uploadMatch[1]);
+      try {
+        // Storage is only for members who proved the passphrase, so rooms without
+        // an auth key can't take uploads from anyone who knows their name
+        if (!(await hasRoomAccess(request, env, roomId, { requireSession: true }))) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        const declaredSize = parseInt(request.headers.get('Content-Length') || '0', 10);
+        if (declaredSize > MAX_ATTACHMENT_SIZE) {
+          return errorResponse('Attachment too large', 413);
+        }
+        const body = await request.arrayBuffer();
+        if (body.byteLength === 0) {
+          return errorResponse('Empty attachment', 400);
+        }
+        if (body.byteLength > MAX_ATTACHMENT_SIZE) {
+          return errorResponse('Attachment too large', 413);
+        }
+
+        const attachmentId = await storeAttachment(env, roomId, body);
+        return jsonResponse({ attachmentId });
+      } catch (err) {
+        return errorResponse('Failed to store attachment', 500);
+      }
+    }
+
+    // GET /api/rooms/:roomId/attachments/:attachmentId - Download an encrypted attachment
+    const attachmentMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/attachments\/([^/]+)$/);
+    if (attachmentMatch && request.method === 'GET') {
+      const roomId = decodeURIComponent(attachmentMatch[1]);
+      const attachmentId = decodeURIComponent(attachmentMatch[2]);
+      try {
+        if (!isValidAttachmentId(attachmentId)) {
+          return errorResponse('Attachment not found', 404);
+        }
+        if (!(await hasRoomAccess(request, env, roomId))) {
+          return errorResponse('Unauthorized', 401);
+        }
+
+        const object = await getAttachment(env, roomId, attachmentId);
+        if (!object) {
+          return errorResponse('Attachment not found', 404);
+        }
+
+        // Attachments are immutable; the browser may keep them, but shared caches may not
+        return corsResponse(new Response(object.body, {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Cache-Control': 'private, max-age=31536000, immutable',
+          },
+        }));
+      } catch (err) {
+        return errorResponse('Failed to fetch attachment', 500);
+      }
+    }
+
     // WebSocket upgrade for /api/rooms/:roomId/ws
     const wsMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)\/ws$/);
     if (wsMatch) {
@@ -305,6 +1148,10 @@ export default {
         return errorResponse('Room not found', 404);
       }
 
+      if (!(await hasRoomAccess(request, env, roomId))) {
+        return errorResponse('Unauthorized', 401);
+      }
+
       // Get Durable Object
       const id = env.RECIPE_ROOM.idFromName(roomId);
       const stub = env.RECIPE_ROOM.get(id);
@@ -0,0 +1,157 @@
+import type { Env } from './index';
+
+// Invite tokens for join links.
+//
+// A join link carries the room passphrase in its fragment, so it can't be
+// un-shared. An invite token travels alongside it and is redeemed by the join
+// page, which lets a link expire, stop after a number of uses, or be revoked.
+// Redeeming one gives the browser a member pass (see room-auth.ts), and once a
+// room has invites, sessions need a pass, so the passphrase alone doesn't let a
+// newcomer in. Tokens look like "<inviteId>.<secret>".
+
+export interface InviteInfo {
+  inviteId: string;
+  roomId: string;
+  label: string | null;
+  createdAt: string;
+  expiresAt: number | null;
+  maxUses: number | null;
+  uses: number;
+  revokedAt: string | null;
+}
+
+export type RedeemResult = 'ok' | 'invalid' | 'expired' | 'used_up' | 'revoked';
+
+export const MAX_INVITE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const MAX_INVITE_USES = 1000;
+const MAX_LABEL_LENGTH = 100;
+
+function randomHex(bytes: number): string {
+  const array = new Uint8Array(bytes);
+  crypto.getRandomValues(array);
+  return Array.from(array)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function rowToInfo(row: any): InviteInfo {
+  return {
+    inviteId: row.invite_id,
+    roomId: row.room_id,
+    label: row.label,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    maxUses: row.max_uses,
+    uses: row.uses,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export function isValidInviteOptions(value: unknown): value is { label?: string; ttlMs?: number; maxUses?: number } {
+  const options = value as { label?: unknown; ttlMs?: unknown; maxUses?: unknown } | null;
+  if (!options || typeof options !== 'object') return false;
+  if (options.label !== undefined && (typeof options.label !== 'string' || options.label.length > MAX_LABEL_LENGTH)) {
+    return false;
+  }
+  if (
+    options.ttlMs !== undefined &&
+    (!Number.isInteger(options.ttlMs) || (options.ttlMs as number) < 1 || (options.ttlMs as number) > MAX_INVITE_TTL_MS)
+  ) {
+    return false;
+  }
+  if (
+    options.maxUses !== undefined &&
+    (!Number.isInteger(options.maxUses) || (options.maxUses as number) < 1 || (options.maxUses as number) > MAX_INVITE_USES)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// Issue an invite for a room. Invites always expire; the token is only ever returned here.
+export async function createInvite(
+  env: Env,
+  roomId: string,
+  options: { label?: string; ttlMs?: number; maxUses?: number }
+): Promise<{ token: string; info: InviteInfo }> {
+  const inviteId = randomHex(8);
+  const secret = randomHex(32);
+  const createdAt = new Date().toISOString();
+  const expiresAt = Date.now() + (options.ttlMs ?? MAX_INVITE_TTL_MS);
+  const label = options.label?.trim() || null;
+  const maxUses = options.maxUses ?? null;
+
+  await env.DB.prepare(
+    'INSERT INTO room_invites (invite_id, secret_hash, room_id, label, created_at, expires_at, max_uses) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  )
+    .bind(inviteId, await sha256Hex(secret), roomId, label, createdAt, expiresAt, maxUses)
+    .run();
+
+  return {
+    token: `${inviteId}.${secret}`,
+    info: { inviteId, roomId, label, createdAt, expiresAt, maxUses, uses: 0, revokedAt: null },
+  };
+}
+
+// Rooms with any invite, live or not, only admit members holding a pass
+export async function roomHasInvites(env: Env, roomId: string): Promise<boolean> {
+  const row = await env.DB.prepare('SELECT 1 FROM room_invites WHERE room_id = ? LIMIT 1').bind(roomId).first();
+  return !!row;
+}
+
+export async function listInvites(env: Env, roomId: string): Promise<InviteInfo[]> {
+  const result = await env.DB.prepare(
+    'SELECT invite_id, room_id, label, created_at, expires_at, max_uses, uses, revoked_at FROM room_invites WHERE room_id = ? ORDER BY created_at DESC'
+  )
+    .bind(roomId)
+    .all();
+  return (result.results || []).map(rowToInfo);
+}
+
+// Revoke an invite and return its room, or null if it doesn't exist or was already revoked
+export async function revokeInvite(env: Env, inviteId: string): Promise<string | null> {
+  const row = await env.DB.prepare(
+    'UPDATE room_invites SET revoked_at = ? WHERE invite_id = ? AND revoked_at IS NULL RETURNING room_id'
+  )
+    .bind(new Date().toISOString(), inviteId)
+    .first();
+  return row ? (row.room_id as string) : null;
+}
+
+// Use up one redemption of an invite. The secret is checked before the use is
+// counted, so knowing an invite ID alone can't burn its uses.
+export async function redeemInvite(env: Env, roomId: string, token: string): Promise<RedeemResult> {
+  const match = token.match(/^([0-9a-f]{16})\.([0-9a-f]{64})$/);
+  if (!match) return 'invalid';
+  const [, inviteId, secret] = match;
+
+  const row = await env.DB.prepare('SELECT * FROM room_invites WHERE invite_id = ? AND room_id = ?')
+    .bind(inviteId, roomId)
+    .first();
+  if (!row) return 'invalid';
+
+  const presented = new TextEncoder().encode(await sha256Hex(secret));
+  const expected = new TextEncoder().encode(row.secret_hash as string);
+  if (presented.length !== expected.length || !crypto.subtle.timingSafeEqual(presented, expected)) {
+    return 'invalid';
+  }
+  if (row.revoked_at) return 'revoked';
+
+  const now = Date.now();
+  if (row.expires_at !== null && (row.expires_at as number) <= now) return 'expired';
+
+  // Conditional increment, so concurrent redemptions can't exceed max_uses
+  const result = await env.DB.prepare(
+    'UPDATE room_invites SET uses = uses + 1 WHERE invite_id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?) AND (max_uses IS NULL OR uses < max_uses)'
+  )
+    .bind(inviteId, now)
+    .run();
+  return result.meta.changes > 0 ? 'ok' : 'used_up';
+}
@@ -0,0 +1,69 @@
+// Key derivation settings of a room key version. Clients derive keys from the
+// passphrase themselves; the server only stores and validates the parameters.
+// `iterations` is the PBKDF2 iteration count, or the Argon2id time cost.
+
+export type KdfAlg = 'pbkdf2' | 'argon2id';
+
+export interface KdfParams {
+  alg: KdfAlg;
+  iterations: number;
+  // Argon2id only
+  memoryKiB: number | null;
+  parallelism: number | null;
+}
+
+// Clients that send no KDF fields predate Argon2id and use PBKDF2
+export const DEFAULT_KDF: KdfParams = { alg: 'pbkdf2', iterations: 100000, memoryKiB: null, parallelism: null };
+
+const PBKDF2_ITERATIONS = { min: 10_000, max: 10_000_000 };
+const ARGON2_ITERATIONS = { min: 1, max: 10 };
+const ARGON2_MEMORY_KIB = { min: 8 * 1024, max: 1024 * 1024 };
+const ARGON2_PARALLELISM = { min: 1, max: 8 };
+
+function inRange(value: unknown, range: { min: number; max: number }): value is number {
+  return Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max;
+}
+
+// Validate the KDF fields of a create/rotate body; returns an error message if invalid
+export function parseKdfParams(body: {
+  kdfAlg?: unknown;
+  kdfIters?: unknown;
+  kdfMemoryKiB?: unknown;
+  kdfParallelism?: unknown;
+}): KdfParams | string {
+  if (body.kdfAlg === undefined || body.kdfAlg === 'pbkdf2') {
+    if (body.kdfIters === undefined) return DEFAULT_KDF;
+    if (!inRange(body.kdfIters, PBKDF2_ITERATIONS)) return 'Invalid KDF iterations';
+    return { ...DEFAULT_KDF, iterations: body.kdfIters };
+  }
+  if (body.kdfAlg !== 'argon2id') {
+    return 'Unsupported KDF';
+  }
+  if (
+    !inRange(body.kdfIters, ARGON2_ITERATIONS) ||
+    !inRange(body.kdfMemoryKiB, ARGON2_MEMORY_KIB) ||
+    !inRange(body.kdfParallelism, ARGON2_PARALLELISM)
+  ) {
+    return 'Invalid KDF parameters';
+  }
+  return { alg: 'argon2id', iterations: body.kdfIters, memoryKiB: body.kdfMemoryKiB, parallelism: body.kdfParallelism };
+}
+
+export function kdfFromRow(row: any): KdfParams {
+  return {
+    alg: row.kdf_alg === 'argon2id' ? 'argon2id' : 'pbkdf2',
+    iterations: row.kdf_iters,
+    memoryKiB: row.kdf_memory_kib ?? null,
+    parallelism: row.kdf_parallelism ?? null,
+  };
+}
+
+// The API's flat KDF fields, alongside saltB64 in room and key version JSON
+export function kdfFields(kdf: KdfParams): {
+  kdfAlg: KdfAlg;
+  kdfIters: number;
+  kdfMemoryKiB: number | null;
+  kdfParallelism: number | null;
+} {
+  return { kdfAlg: kdf.alg, kdfIters: kdf.iterations, kdfMemoryKiB: kdf.memoryKiB, kdfParallelism: kdf.parallelism };
+}
@@ -0,0 +1,36 @@
+// Moderation requests the Worker's admin API forwards to a room's RecipeRoom
+// Durable Object, which owns the ban list and name claims and holds the sockets.
+
+export interface BannedKey {
+  keyFingerprint: string;
+  reason: string | null;
+  bannedAt: string;
+}
+
+export interface NameClaim {
+  nameHash: string;
+  keyFingerprint: string;
+  claimedAt: string;
+}
+
+export type ModerationRequest =
+  | { op: 'list' }
+  | { op: 'remove_messages'; msgIds: string[] }
+  | { op: 'ban'; keyFingerprint: string; reason: string | null }
+  | { op: 'unban'; keyFingerprint: string }
+  | { op: 'release_claim'; nameHash: string }
+  | { op: 'reassign_claim'; nameHash: string; keyFingerprint: string };
+
+const MAX_REASON_LENGTH = 200;
+
+export function isValidFingerprint(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{32}$/.test(value);
+}
+
+export function isValidNameHash(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
+
+export function isValidBanReason(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_REASON_LENGTH;
+}
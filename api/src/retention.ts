@@ -0,0 +1,75 @@
+import type { Env } from './index';
+import { deleteMessageAttachments } from './attachments';
+
+// Per-room message retention. The policy lives on the rooms row; the room's
+// RecipeRoom Durable Object keeps a copy and purges expired rows on an alarm.
+
+export type RetentionMode = 'forever' | 'days' | 'count';
+
+export interface RetentionPolicy {
+  mode: RetentionMode;
+  // Days to keep for 'days', newest messages to keep for 'count'; null for 'forever'
+  value: number | null;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { mode: 'forever', value: null };
+
+const MAX_RETENTION_VALUE = 100_000;
+const PURGE_BATCH_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidRetention(value: unknown): value is RetentionPolicy {
+  const policy = value as RetentionPolicy | null;
+  if (!policy) return false;
+  if (policy.mode === 'forever') return policy.value === null || policy.value === undefined;
+  return (
+    (policy.mode === 'days' || policy.mode === 'count') &&
+    Number.isInteger(policy.value) &&
+    (policy.value as number) >= 1 &&
+    (policy.value as number) <= MAX_RETENTION_VALUE
+  );
+}
+
+export function retentionFromRow(row: any): RetentionPolicy {
+  if (!row || (row.retention_mode !== 'days' && row.retention_mode !== 'count')) {
+    return DEFAULT_RETENTION;
+  }
+  return { mode: row.retention_mode, value: row.retention_value };
+}
+
+// Delete one batch of messages (and their revisions and attachments) that fall
+// outside the policy. Returns how many were deleted, zero once nothing is left to purge.
+export async function purgeExpiredBatch(
+  env: Pick<Env, 'DB' | 'ATTACHMENTS'>,
+  roomId: string,
+  policy: RetentionPolicy,
+  now = Date.now()
+): Promise<number> {
+  if (policy.mode === 'forever' || policy.value === null) return 0;
+
+  const db = env.DB;
+  const expired =
+    policy.mode === 'days'
+      ? db
+          .prepare('SELECT msg_id FROM messages WHERE room_id = ? AND created_at < ? ORDER BY seq ASC LIMIT ?')
+          .bind(roomId, new Date(now - policy.value * DAY_MS).toISOString(), PURGE_BATCH_SIZE)
+      : // Everything past the newest `value` messages
+        db
+          .prepare('SELECT msg_id FROM messages WHERE room_id = ? ORDER BY seq DESC LIMIT ? OFFSET ?')
+          .bind(roomId, PURGE_BATCH_SIZE, policy.value);
+
+  const rows = ((await expired.all()).results || []) as { msg_id: string }[];
+  if (rows.length === 0) return 0;
+
+  await deleteMessageAttachments(env, roomId, rows.map((row) => row.msg_id));
+  const msgIds = JSON.stringify(rows.map((row) => row.msg_id));
+  await db.batch([
+    db
+      .prepare('DELETE FROM message_revisions WHERE room_id = ? AND msg_id IN (SELECT value FROM json_each(?))')
+      .bind(roomId, msgIds),
+    db
+      .prepare('DELETE FROM messages WHERE room_id = ? AND msg_id IN (SELECT value FROM json_each(?))')
+      .bind(roomId, msgIds),
+  ]);
+  return rows.length;
+}
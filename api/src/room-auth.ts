@@ -0,0 +1,205 @@
+import type { Env } from './index';
+import { roomHasInvites } from './invites';
+
+// Room membership proof.
+//
+// Clients derive an auth key from the passphrase alongside the AES message key:
+// the key version's KDF (PBKDF2 or Argon2id) stretches the passphrase, and the
+// auth key is an HKDF expansion of that output, so it reveals nothing about the
+// AES key, which is the KDF output itself.
+// The admin client provisions it per key version at create/rotate time. To read
+// history or open the WebSocket, a client fetches a one-time challenge, returns
+// HMAC(authKey, roomId|version|nonce), and gets a short-lived session token.
+//
+// Once a room has invites, the passphrase alone isn't enough: a session also
+// needs a member pass, which a browser gets by redeeming an invite. Members of
+// rooms without invites get one with their next session, so they keep their
+// access when invites are turned on.
+
+const CHALLENGE_TTL_MS = 2 * 60 * 1000;
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+function randomToken(bytes: number): string {
+  const array = new Uint8Array(bytes);
+  crypto.getRandomValues(array);
+  return btoa(String.fromCharCode(...array))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function base64ToBytes(b64: string): Uint8Array {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Auth keys are 32 raw bytes, base64 encoded by the admin client
+export function isValidAuthKey(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > 64) return false;
+  try {
+    return atob(value).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+// Current key version of a room and its auth key (null if never provisioned)
+async function getCurrentAuthKey(
+  env: Env,
+  roomId: string
+): Promise<{ version: number; authKeyB64: string | null } | null> {
+  const row = await env.DB.prepare(
+    'SELECT r.version, k.auth_key_b64 FROM rooms r LEFT JOIN room_keys k ON k.room_id = r.room_id AND k.version = r.version WHERE r.room_id = ?'
+  )
+    .bind(roomId)
+    .first();
+
+  if (!row) return null;
+  return { version: row.version as number, authKeyB64: (row.auth_key_b64 as string | null) || null };
+}
+
+export async function createChallenge(
+  env: Env,
+  roomId: string
+): Promise<{ nonce: string; version: number; expiresAt: number } | null> {
+  const current = await getCurrentAuthKey(env, roomId);
+  if (!current) return null;
+
+  const now = Date.now();
+  const nonce = randomToken(32);
+  const expiresAt = now + CHALLENGE_TTL_MS;
+
+  await env.DB.batch([
+    // Opportunistic cleanup so expired rows don't pile up
+    env.DB.prepare('DELETE FROM auth_challenges WHERE expires_at <= ?').bind(now),
+    env.DB.prepare('DELETE FROM room_sessions WHERE expires_at <= ?').bind(now),
+    env.DB.prepare(
+      'INSERT INTO auth_challenges (nonce, room_id, version, expires_at) VALUES (?, ?, ?, ?)'
+    ).bind(nonce, roomId, current.version, expiresAt),
+  ]);
+
+  return { nonce, version: current.version, expiresAt };
+}
+
+// Verify a challenge response and open a session. Challenges are single use and
+// only valid for the key version that was current when they were issued. Returns
+// null for a bad proof, 'invite_required' for a missing member pass, and a new
+// pass along with the session when the room gives one out.
+export async function openSession(
+  env: Env,
+  roomId: string,
+  nonce: string,
+  proofB64: string,
+  memberPass?: string
+): Promise<{ token: string; expiresAt: number; memberPass?: string } | 'invite_required' | null> {
+  const challenge = await env.DB.prepare(
+    'DELETE FROM auth_challenges WHERE nonce = ? AND room_id = ? RETURNING version, expires_at'
+  )
+    .bind(nonce, roomId)
+    .first();
+
+  if (!challenge || (challenge.expires_at as number) <= Date.now()) return null;
+
+  const current = await getCurrentAuthKey(env, roomId);
+  if (!current?.authKeyB64 || current.version !== challenge.version) return null;
+
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(current.authKeyB64),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  let proof: Uint8Array;
+  try {
+    proof = base64ToBytes(proofB64);
+  } catch {
+    return null;
+  }
+
+  // subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    hmacKey,
+    proof,
+    new TextEncoder().encode(`${roomId}|${current.version}|${nonce}`)
+  );
+  if (!valid) return null;
+
+  let newPass: string | undefined;
+  if (!memberPass || !(await isMemberPass(env, roomId, memberPass))) {
+    if (await roomHasInvites(env, roomId)) return 'invite_required';
+    newPass = await issueMemberPass(env, roomId);
+  }
+
+  const token = randomToken(32);
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  await env.DB.prepare(
+    'INSERT INTO room_sessions (token_hash, room_id, version, expires_at) VALUES (?, ?, ?, ?)'
+  )
+    .bind(await sha256Hex(token), roomId, current.version, expiresAt)
+    .run();
+
+  return { token, expiresAt, memberPass: newPass };
+}
+
+// Issue a member pass for a browser joining the room. Passes outlive rotations;
+// they only end when the room is deleted.
+export async function issueMemberPass(env: Env, roomId: string): Promise<string> {
+  const pass = randomToken(32);
+  await env.DB.prepare('INSERT INTO member_passes (pass_hash, room_id, created_at) VALUES (?, ?, ?)')
+    .bind(await sha256Hex(pass), roomId, new Date().toISOString())
+    .run();
+  return pass;
+}
+
+async function isMemberPass(env: Env, roomId: string, pass: string): Promise<boolean> {
+  if (pass.length > 64) return false;
+  const row = await env.DB.prepare('SELECT 1 FROM member_passes WHERE pass_hash = ? AND room_id = ?')
+    .bind(await sha256Hex(pass), roomId)
+    .first();
+  return !!row;
+}
+
+// Check that a request carries a live session for the room's current key version.
+// Rooms whose current version has no auth key (created before membership proofs)
+// stay open, except for what `requireSession` reserves for members with a session.
+// The token comes from the Authorization header, or the `token` query parameter
+// for WebSocket upgrades, where browsers can't set headers.
+export async function hasRoomAccess(
+  request: Request,
+  env: Env,
+  roomId: string,
+  options?: { requireSession?: boolean }
+): Promise<boolean> {
+  const current = await getCurrentAuthKey(env, roomId);
+  if (!current) return false;
+  if (!current.authKeyB64) return !options?.requireSession;
+
+  const authHeader = request.headers.get('Authorization');
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice(7)
+    : new URL(request.url).searchParams.get('token');
+  if (!token) return false;
+
+  const session = await env.DB.prepare(
+    'SELECT version FROM room_sessions WHERE token_hash = ? AND room_id = ? AND expires_at > ?'
+  )
+    .bind(await sha256Hex(token), roomId, Date.now())
+    .first();
+
+  // Sessions opened under an older passphrase end with the rotation
+  return !!session && session.version === current.version;
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { AttachmentRef } from '../utils/crypto';
+import { loadAttachmentUrl } from '../utils/attachments';
+
+// Encrypted image attachment, downloaded and decrypted when first rendered
+export function AttachmentImage({ roomId, attachment }: { roomId: string; attachment: AttachmentRef }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAttachmentUrl(roomId, attachment)
+      .then((objectUrl) => {
+        if (!cancelled) setUrl(objectUrl);
+      })
+      .catch((err) => {
+        console.error('Failed to load attachment:', err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, attachment]);
+
+  // Reserve the image's space while it loads so the message list doesn't jump
+  const aspectRatio = attachment.width && attachment.height ? `${attachment.width} / ${attachment.height}` : undefined;
+
+  if (failed) {
+    return <div className="message-attachment message-attachment-failed">Photo unavailable</div>;
+  }
+
+  return (
+    <div className="message-attachment" style={{ aspectRatio }}>
+      {url && <img src={url} alt="" />}
+    </div>
+  );
+}
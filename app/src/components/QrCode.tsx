@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { encodeQr } from '../utils/qrCode';
+
+// Light margin around the code, in modules, that scanners need to find it
+const QUIET_ZONE = 4;
+
+// QR code drawn as an SVG, encoded in the browser
+export function QrCode({ text, size = 200 }: { text: string; size?: number }) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQr(text);
+    let d = '';
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) d += `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`;
+      });
+    });
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+  }, [text]);
+
+  return (
+    <svg
+      className="qr-code"
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code of the invite link"
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
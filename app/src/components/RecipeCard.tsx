@@ -0,0 +1,194 @@
+import { useState, FormEvent } from 'react';
+import {
+  RecipeCard,
+  UnitSystem,
+  formatIngredient,
+  parseIngredientLine,
+  scaleRecipe,
+  convertRecipe,
+} from '../utils/recipe';
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+// Recipe card with per-card controls to rescale servings and convert units.
+// Both only change what this viewer sees; the shared message stays as sent.
+export function RecipeCardView({ recipe: original }: { recipe: RecipeCard }) {
+  const [servings, setServings] = useState(original.servings ? String(original.servings) : '');
+  const [units, setUnits] = useState<UnitSystem | 'original'>('original');
+
+  const scaled = scaleRecipe(original, Number(servings));
+  const recipe = units === 'original' ? scaled : convertRecipe(scaled, units);
+
+  const times = [
+    recipe.servings ? `Serves ${recipe.servings}` : null,
+    recipe.prepMinutes ? `Prep ${formatMinutes(recipe.prepMinutes)}` : null,
+    recipe.cookMinutes ? `Cook ${formatMinutes(recipe.cookMinutes)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="recipe-card">
+      <div className="recipe-card-title">{recipe.title}</div>
+      {times.length > 0 && <div className="recipe-card-meta">{times.join(' · ')}</div>}
+      {original.ingredients.length > 0 && (
+        <div className="recipe-card-controls">
+          {original.servings !== undefined && (
+            <label>
+              Scale to
+              <input
+                type="number"
+                min="1"
+                value={servings}
+                onChange={(e) => setServings(e.target.value)}
+                aria-label="Servings"
+              />
+              servings
+            </label>
+          )}
+          <select value={units} onChange={(e) => setUnits(e.target.value as UnitSystem | 'original')} aria-label="Units">
+            <option value="original">Units as written</option>
+            <option value="metric">Metric</option>
+            <option value="imperial">Imperial</option>
+          </select>
+        </div>
+      )}
+      {recipe.ingredients.length > 0 && (
+        <>
+          <div className="recipe-card-heading">Ingredients</div>
+          <ul className="recipe-card-ingredients">
+            {recipe.ingredients.map((ingredient, i) => (
+              <li key={i}>{formatIngredient(ingredient)}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      {recipe.steps.length > 0 && (
+        <>
+          <div className="recipe-card-heading">Steps</div>
+          <ol className="recipe-card-steps">
+            {recipe.steps.map((step, i) => (
+              <li key={i}>{step}</li>
+            ))}
+          </ol>
+        </>
+      )}
+      {recipe.notes && <div className="recipe-card-notes">{recipe.notes}</div>}
+    </div>
+  );
+}
+
+function parsePositive(value: string): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function lines(value: string): string[] {
+  return value.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+// Composer for a recipe card. Ingredients and steps are entered one per line;
+// ingredient lines like "2 cups flour" are split into quantity, unit and name.
+// Pass `initial` to edit an existing card.
+export function RecipeComposer({
+  initial,
+  disabled,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: RecipeCard;
+  disabled: boolean;
+  onSubmit: (recipe: RecipeCard) => void;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState(initial?.title ?? '');
+  const [servings, setServings] = useState(initial?.servings ? String(initial.servings) : '');
+  const [prepMinutes, setPrepMinutes] = useState(initial?.prepMinutes ? String(initial.prepMinutes) : '');
+  const [cookMinutes, setCookMinutes] = useState(initial?.cookMinutes ? String(initial.cookMinutes) : '');
+  const [ingredients, setIngredients] = useState(initial?.ingredients.map(formatIngredient).join('\n') ?? '');
+  const [steps, setSteps] = useState(initial?.steps.join('\n') ?? '');
+  const [notes, setNotes] = useState(initial?.notes ?? '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    onSubmit({
+      title: title.trim(),
+      servings: parsePositive(servings),
+      prepMinutes: parsePositive(prepMinutes),
+      cookMinutes: parsePositive(cookMinutes),
+      ingredients: lines(ingredients).flatMap((line) => {
+        const ingredient = parseIngredientLine(line);
+        return ingredient ? [ingredient] : [];
+      }),
+      steps: lines(steps),
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <form className="recipe-composer" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Recipe title"
+        maxLength={120}
+        autoFocus
+      />
+      <div className="recipe-composer-row">
+        <input
+          type="number"
+          min="1"
+          value={servings}
+          onChange={(e) => setServings(e.target.value)}
+          placeholder="Servings"
+        />
+        <input
+          type="number"
+          min="1"
+          value={prepMinutes}
+          onChange={(e) => setPrepMinutes(e.target.value)}
+          placeholder="Prep (min)"
+        />
+        <input
+          type="number"
+          min="1"
+          value={cookMinutes}
+          onChange={(e) => setCookMinutes(e.target.value)}
+          placeholder="Cook (min)"
+        />
+      </div>
+      <textarea
+        value={ingredients}
+        onChange={(e) => setIngredients(e.target.value)}
+        placeholder={'Ingredients, one per line\n2 cups flour\n1/2 tsp salt'}
+        rows={4}
+      />
+      <textarea
+        value={steps}
+        onChange={(e) => setSteps(e.target.value)}
+        placeholder="Steps, one per line"
+        rows={4}
+      />
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes (optional)"
+        rows={2}
+      />
+      <div className="recipe-composer-actions">
+        <button type="button" className="secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" disabled={disabled || !title.trim()}>
+          {initial ? 'Save recipe' : 'Share recipe'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,7 +1,48 @@
-import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { useState, useEffect, useCallback, useRef, FormEvent } from 'react';
 import { Link } from 'react-router-dom';
-import { createRoom, rotatePassphrase, listRooms, deleteRoom, AdminRoom } from '../utils/api';
-import { generatePassphrase } from '../utils/crypto';
+import {
+  createRoom,
+  rotatePassphrase,
+  listRooms,
+  deleteRoom,
+  updateRoom,
+  getRoom,
+  getAdminSession,
+  createOwnerToken,
+  listOwnerTokens,
+  revokeOwnerToken,
+  listAuditLog,
+  getModeration,
+  removeMessage,
+  banKey,
+  unbanKey,
+  updateNameClaim,
+  createInvite,
+  listInvites,
+  revokeInvite,
+  AdminRoom,
+  AuditEntry,
+  BannedKey,
+  Invite,
+  NameClaim,
+  AdminSession,
+  OwnerToken,
+  RetentionPolicy,
+} from '../utils/api';
+import {
+  generatePassphrase,
+  generateSalt,
+  deriveRoomSecrets,
+  createKeyCheck,
+  encryptRoomMetadata,
+  DEFAULT_KDF,
+  PBKDF2_KDF,
+  KdfAlg,
+  KdfFields,
+  formatPassphrase,
+} from '../utils/crypto';
+import { QrCode } from '../components/QrCode';
+import { saveRoomPassphrase, saveMemberPass, readRoomMetadata, getRoomCredentials } from '../utils/keyRing';
 
 interface InviteKit {
   roomId: string;
@@ -10,6 +51,11 @@ interface InviteKit {
   shareLink: string;
 }
 
+// Join link with the invite token in the query and the passphrase in the fragment
+function inviteLink(roomId: string, token: string, passphrase: string): string {
+  return `${window.location.origin}/join/${encodeURIComponent(roomId)}?invite=${encodeURIComponent(token)}#${passphrase}`;
+}
+
 function slugify(input: string): string {
   return input
     .toLowerCase()
@@ -21,6 +67,680 @@ function slugify(input: string): string {
     .replace(/^-|-$/g, '');
 }
 
+// Printable card with the share link as a QR code and the passphrase in groups
+// for reading aloud. Printing hides the rest of the page (see @media print).
+function InviteCard({ kit }: { kit: InviteKit }) {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  const handlePrint = () => {
+    const card = cardRef.current;
+    if (!card) return;
+    card.classList.add('printing');
+    window.addEventListener('afterprint', () => card.classList.remove('printing'), { once: true });
+    window.print();
+  };
+
+  return (
+    <>
+      <div className="invite-card" ref={cardRef}>
+        <div className="invite-card-title">{kit.title || kit.roomId}</div>
+        <QrCode text={kit.shareLink} size={180} />
+        <div className="invite-card-hint">Scan to join this recipe. Members can also enter it on the home page:</div>
+        <div className="invite-card-field">
+          <span className="invite-kit-label">Recipe name</span>
+          <code>{kit.roomId}</code>
+        </div>
+        <div className="invite-card-field">
+          <span className="invite-kit-label">Passphrase</span>
+          <code>{formatPassphrase(kit.passphrase)}</code>
+        </div>
+      </div>
+      <button className="secondary small" onClick={handlePrint}>
+        Print card
+      </button>
+    </>
+  );
+}
+
+// Key derivation choices for new keys. Argon2id needs 64 MiB per derivation,
+// which some older phones can't spare; PBKDF2 works everywhere.
+const KDF_CHOICES: Record<KdfAlg, { label: string; kdf: KdfFields }> = {
+  argon2id: { label: 'Argon2id, 64 MiB (recommended)', kdf: DEFAULT_KDF },
+  pbkdf2: { label: 'PBKDF2 (for older devices)', kdf: PBKDF2_KDF },
+};
+
+function KdfSelect({ id, value, onChange }: { id: string; value: KdfAlg; onChange: (alg: KdfAlg) => void }) {
+  return (
+    <div>
+      <label htmlFor={id}>Key Derivation</label>
+      <select id={id} value={value} onChange={(e) => onChange(e.target.value as KdfAlg)}>
+        {(Object.keys(KDF_CHOICES) as KdfAlg[]).map((alg) => (
+          <option key={alg} value={alg}>
+            {KDF_CHOICES[alg].label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// Generate a passphrase and salt client-side, plus the key check that lets
+// joiners verify the passphrase and the auth key members prove themselves with.
+// The passphrase itself never leaves the browser.
+async function prepareRoomKey(roomId: string, alg: KdfAlg) {
+  const { kdf } = KDF_CHOICES[alg];
+  const passphrase = generatePassphrase();
+  const saltB64 = generateSalt();
+  const { key, authKeyB64 } = await deriveRoomSecrets(passphrase, saltB64, kdf);
+  const keyCheck = await createKeyCheck(key, roomId, saltB64);
+  return { passphrase, key, params: { saltB64, ...kdf, keyCheck, authKeyB64 } };
+}
+
+// Retention editor for one room: keep messages forever, for N days, or only the last N
+function RetentionControl({
+  retention,
+  onSave,
+}: {
+  retention: RetentionPolicy;
+  onSave: (retention: RetentionPolicy) => Promise<void>;
+}) {
+  const [mode, setMode] = useState(retention.mode);
+  const [value, setValue] = useState(retention.value ? String(retention.value) : '');
+  const [saving, setSaving] = useState(false);
+
+  const parsed = parseInt(value, 10);
+  const valid = mode === 'forever' || (Number.isInteger(parsed) && parsed >= 1);
+  const changed = mode !== retention.mode || (mode !== 'forever' && parsed !== retention.value);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({ mode, value: mode === 'forever' ? null : parsed });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="room-list-retention">
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as RetentionPolicy['mode'])}
+        aria-label="Message retention"
+      >
+        <option value="forever">Keep forever</option>
+        <option value="days">Keep for N days</option>
+        <option value="count">Keep last N messages</option>
+      </select>
+      {mode !== 'forever' && (
+        <input
+          type="number"
+          min="1"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={mode === 'days' ? 'Days' : 'Messages'}
+          aria-label={mode === 'days' ? 'Days to keep' : 'Messages to keep'}
+        />
+      )}
+      {changed && (
+        <button className="secondary small" onClick={handleSave} disabled={!valid || saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Group keys switch for one room. Only new messages are affected either way:
+// existing ones stay under the key they were sent with.
+function GroupKeysControl({
+  enabled,
+  onSave,
+}: {
+  enabled: boolean;
+  onSave: (enabled: boolean) => Promise<void>;
+}) {
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = async (next: boolean) => {
+    setSaving(true);
+    try {
+      await onSave(next);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <label
+      className="room-list-toggle"
+      title="Members agree on keys that rotate when someone joins or is banned. Banned members can't read later messages and old keys are discarded after a week, but anyone with the passphrase can still join and read new ones"
+    >
+      <input
+        type="checkbox"
+        checked={enabled}
+        disabled={saving}
+        onChange={(e) => handleChange(e.target.checked)}
+      />
+      Group keys (forward secret)
+    </label>
+  );
+}
+
+const TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ownerTokenStatus(token: OwnerToken): string {
+  if (token.revokedAt) return 'revoked';
+  if (token.expiresAt === null) return 'no expiry';
+  if (token.expiresAt <= Date.now()) return 'expired';
+  return `expires ${new Date(token.expiresAt).toLocaleDateString()}`;
+}
+
+// Owner tokens of one room: mint new ones (shown once) and revoke existing ones
+function OwnerTokens({ adminToken, roomId }: { adminToken: string; roomId: string }) {
+  const [tokens, setTokens] = useState<OwnerToken[]>([]);
+  const [label, setLabel] = useState('');
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [minted, setMinted] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    listOwnerTokens(adminToken, roomId)
+      .then(({ tokens: list }) => setTokens(list))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load owner tokens'));
+  }, [adminToken, roomId]);
+
+  const handleMint = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      const { token, ...info } = await createOwnerToken(adminToken, roomId, {
+        label: label.trim() || undefined,
+        ttlMs: expiryDays * DAY_MS,
+      });
+      setTokens((prev) => [info, ...prev]);
+      setMinted(token);
+      setLabel('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create owner token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    setError('');
+    try {
+      await revokeOwnerToken(adminToken, tokenId);
+      const revokedAt = new Date().toISOString();
+      setTokens((prev) => prev.map((t) => (t.tokenId === tokenId ? { ...t, revokedAt } : t)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke owner token');
+    }
+  };
+
+  return (
+    <div className="owner-tokens">
+      <form className="owner-token-form" onSubmit={handleMint}>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label, e.g. who it's for"
+          maxLength={100}
+        />
+        <select value={expiryDays} onChange={(e) => setExpiryDays(Number(e.target.value))} aria-label="Token expiry">
+          {TOKEN_EXPIRY_DAYS.map((days) => (
+            <option key={days} value={days}>
+              {days} days
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="secondary small" disabled={busy}>
+          {busy ? 'Creating...' : 'New owner token'}
+        </button>
+      </form>
+      {minted && (
+        <div className="invite-kit-item">
+          <div className="invite-kit-label">Owner token (shown once; it can rename, rotate and moderate this recipe)</div>
+          <div className="invite-kit-value">
+            <code style={{ wordBreak: 'break-all' }}>{minted}</code>
+          </div>
+        </div>
+      )}
+      {error && <div className="error-message">{error}</div>}
+      {tokens.length > 0 && (
+        <ul className="owner-token-list">
+          {tokens.map((token) => (
+            <li key={token.tokenId}>
+              <span>{token.label || token.tokenId}</span>
+              <span className="owner-token-status">{ownerTokenStatus(token)}</span>
+              {!token.revokedAt && (
+                <button className="link-button danger-text" onClick={() => handleRevoke(token.tokenId)}>
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const INVITE_EXPIRY_DAYS = [1, 7, 30];
+// 0 = no limit on redemptions until the invite expires
+const INVITE_MAX_USES = [1, 5, 25, 0];
+// The share link of an invite kit is an invite too, so it stops working after a week
+const KIT_INVITE_TTL_DAYS = 7;
+
+
+function inviteStatus(invite: Invite): string {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.expiresAt !== null && invite.expiresAt <= Date.now()) return 'expired';
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) return 'used up';
+  const uses = invite.maxUses === null ? `${invite.uses} uses` : `${invite.uses}/${invite.maxUses} uses`;
+  return invite.expiresAt === null ? uses : `${uses}, expires ${new Date(invite.expiresAt).toLocaleDateString()}`;
+}
+
+function RoomInvites({ adminToken, roomId }: { adminToken: string; roomId: string }) {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [label, setLabel] = useState('');
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [maxUses, setMaxUses] = useState(1);
+  const [link, setLink] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  // The link carries the passphrase in its fragment; we can only fill it in if this browser has it
+  const [passphrase] = useState(() => getRoomCredentials(roomId)?.passphrase ?? null);
+
+  useEffect(() => {
+    listInvites(adminToken, roomId)
+      .then(({ invites: list }) => setInvites(list))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load invites'));
+  }, [adminToken, roomId]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      const { token, ...info } = await createInvite(adminToken, roomId, {
+        label: label.trim() || undefined,
+        ttlMs: expiryDays * DAY_MS,
+        maxUses: maxUses || undefined,
+      });
+      setInvites((prev) => [info, ...prev]);
+      setLink(inviteLink(roomId, token, passphrase ?? ''));
+      setLabel('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invite');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    setError('');
+    try {
+      await revokeInvite(adminToken, inviteId);
+      const revokedAt = new Date().toISOString();
+      setInvites((prev) => prev.map((i) => (i.inviteId === inviteId ? { ...i, revokedAt } : i)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+    }
+  };
+
+  return (
+    <div className="owner-tokens">
+      <form className="owner-token-form" onSubmit={handleCreate}>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label, e.g. who it's for"
+          maxLength={100}
+        />
+        <select value={expiryDays} onChange={(e) => setExpiryDays(Number(e.target.value))} aria-label="Invite expiry">
+          {INVITE_EXPIRY_DAYS.map((days) => (
+            <option key={days} value={days}>
+              {days === 1 ? '1 day' : `${days} days`}
+            </option>
+          ))}
+        </select>
+        <select value={maxUses} onChange={(e) => setMaxUses(Number(e.target.value))} aria-label="Invite uses">
+          {INVITE_MAX_USES.map((uses) => (
+            <option key={uses} value={uses}>
+              {uses === 0 ? 'Unlimited uses' : uses === 1 ? 'Single use' : `${uses} uses`}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="secondary small" disabled={busy}>
+          {busy ? 'Creating...' : 'New invite link'}
+        </button>
+      </form>
+      {link && (
+        <div className="invite-kit-item">
+          <div className="invite-kit-label">
+            {passphrase
+              ? 'Invite link (shown once)'
+              : 'Invite link (shown once). This browser has no passphrase for this recipe; add it after the #'}
+          </div>
+          <div className="invite-kit-value">
+            <code style={{ wordBreak: 'break-all' }}>{link}</code>
+          </div>
+        </div>
+      )}
+      {error && <div className="error-message">{error}</div>}
+      {invites.length > 0 && (
+        <ul className="owner-token-list">
+          {invites.map((invite) => (
+            <li key={invite.inviteId}>
+              <span>{invite.label || invite.inviteId}</span>
+              <span className="owner-token-status">{inviteStatus(invite)}</span>
+              {!invite.revokedAt && (
+                <button className="link-button danger-text" onClick={() => handleRevoke(invite.inviteId)}>
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Fingerprints and name hashes are long hex strings; a prefix is enough to tell them apart
+function shortHex(value: string): string {
+  return `${value.slice(0, 12)}…`;
+}
+
+function ModerationTools({ adminToken, roomId }: { adminToken: string; roomId: string }) {
+  const [bans, setBans] = useState<BannedKey[]>([]);
+  const [claims, setClaims] = useState<NameClaim[]>([]);
+  const [msgId, setMsgId] = useState('');
+  const [banFingerprint, setBanFingerprint] = useState('');
+  const [banReason, setBanReason] = useState('');
+  const [reassignFor, setReassignFor] = useState<string | null>(null);
+  const [reassignFingerprint, setReassignFingerprint] = useState('');
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const state = await getModeration(adminToken, roomId);
+      setBans(state.bans);
+      setClaims(state.claims);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load moderation');
+    }
+  }, [adminToken, roomId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Run an action, then show its outcome and refresh the lists
+  const run = async (action: () => Promise<void>, done: string) => {
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      setNotice(done);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Moderation failed');
+    }
+  };
+
+  const handleRemove = (e: FormEvent) => {
+    e.preventDefault();
+    const id = msgId.trim();
+    if (!id) return;
+    run(() => removeMessage(adminToken, roomId, id), 'Message removed').then(() => setMsgId(''));
+  };
+
+  const handleBan = (e: FormEvent) => {
+    e.preventDefault();
+    const fingerprint = banFingerprint.trim().toLowerCase();
+    if (!fingerprint) return;
+    run(() => banKey(adminToken, roomId, fingerprint, banReason.trim() || undefined), 'Key banned').then(() => {
+      setBanFingerprint('');
+      setBanReason('');
+    });
+  };
+
+  const handleReassign = (e: FormEvent, nameHash: string) => {
+    e.preventDefault();
+    const fingerprint = reassignFingerprint.trim().toLowerCase();
+    if (!fingerprint) return;
+    run(() => updateNameClaim(adminToken, roomId, nameHash, fingerprint), 'Name reassigned').then(() => {
+      setReassignFor(null);
+      setReassignFingerprint('');
+    });
+  };
+
+  const bannedSet = new Set(bans.map((ban) => ban.keyFingerprint));
+
+  return (
+    <div className="moderation">
+      <form className="owner-token-form" onSubmit={handleRemove}>
+        <input type="text" value={msgId} onChange={(e) => setMsgId(e.target.value)} placeholder="Message ID" />
+        <button type="submit" className="secondary small">
+          Remove message
+        </button>
+      </form>
+      <form className="owner-token-form" onSubmit={handleBan}>
+        <input
+          type="text"
+          value={banFingerprint}
+          onChange={(e) => setBanFingerprint(e.target.value)}
+          placeholder="Key fingerprint"
+        />
+        <input
+          type="text"
+          value={banReason}
+          onChange={(e) => setBanReason(e.target.value)}
+          placeholder="Reason (optional)"
+          maxLength={200}
+        />
+        <button type="submit" className="secondary small">
+          Ban key
+        </button>
+      </form>
+      {notice && <div className="moderation-notice">{notice}</div>}
+      {error && <div className="error-message">{error}</div>}
+
+      {bans.length > 0 && (
+        <>
+          <div className="moderation-heading">Banned keys</div>
+          <ul className="owner-token-list">
+            {bans.map((ban) => (
+              <li key={ban.keyFingerprint}>
+                <code title={ban.keyFingerprint}>{shortHex(ban.keyFingerprint)}</code>
+                <span className="owner-token-status">
+                  {ban.reason || 'no reason given'}, {new Date(ban.bannedAt).toLocaleDateString()}
+                </span>
+                <button
+                  className="link-button"
+                  onClick={() => run(() => unbanKey(adminToken, roomId, ban.keyFingerprint), 'Ban lifted')}
+                >
+                  Unban
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {claims.length > 0 && (
+        <>
+          <div className="moderation-heading">Name claims</div>
+          <ul className="owner-token-list">
+            {claims.map((claim) => (
+              <li key={claim.nameHash}>
+                <code title={claim.nameHash}>{shortHex(claim.nameHash)}</code>
+                <span className="owner-token-status" title={claim.keyFingerprint}>
+                  key {shortHex(claim.keyFingerprint)}
+                  {bannedSet.has(claim.keyFingerprint) && ' (banned)'}
+                </span>
+                {reassignFor === claim.nameHash ? (
+                  <form className="owner-token-form" onSubmit={(e) => handleReassign(e, claim.nameHash)}>
+                    <input
+                      type="text"
+                      value={reassignFingerprint}
+                      onChange={(e) => setReassignFingerprint(e.target.value)}
+                      placeholder="New key fingerprint"
+                      autoFocus
+                    />
+                    <button type="submit" className="secondary small">
+                      Reassign
+                    </button>
+                    <button type="button" className="link-button" onClick={() => setReassignFor(null)}>
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      className="link-button"
+                      onClick={() => run(() => updateNameClaim(adminToken, roomId, claim.nameHash, null), 'Name released')}
+                    >
+                      Release
+                    </button>
+                    <button className="link-button" onClick={() => setReassignFor(claim.nameHash)}>
+                      Reassign
+                    </button>
+                    {!bannedSet.has(claim.keyFingerprint) && (
+                      <button
+                        className="link-button danger-text"
+                        onClick={() => run(() => banKey(adminToken, roomId, claim.keyFingerprint), 'Key banned')}
+                      >
+                        Ban key
+                      </button>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+const AUDIT_ACTIONS = [
+  'room.create',
+  'room.update',
+  'room.rotate',
+  'room.delete',
+  'token.create',
+  'token.revoke',
+  'invite.create',
+  'invite.revoke',
+  'message.remove',
+  'key.ban',
+  'key.unban',
+  'claim.release',
+  'claim.reassign',
+];
+
+function auditSummary(value: unknown): string {
+  return value === null || value === undefined ? '-' : JSON.stringify(value);
+}
+
+function AuditLog({ adminToken, rooms }: { adminToken: string; rooms: AdminRoom[] }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextBefore, setNextBefore] = useState<number | null>(null);
+  const [roomFilter, setRoomFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(
+    async (before?: number) => {
+      setLoading(true);
+      setError('');
+      try {
+        const page = await listAuditLog(adminToken, { roomId: roomFilter, action: actionFilter, before });
+        setEntries((prev) => (before === undefined ? page.entries : [...prev, ...page.entries]));
+        setNextBefore(page.nextBefore);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [adminToken, roomFilter, actionFilter]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="audit-log">
+      <div className="audit-filters">
+        {rooms.length > 1 && (
+          <select value={roomFilter} onChange={(e) => setRoomFilter(e.target.value)} aria-label="Filter by room">
+            <option value="">All rooms</option>
+            {rooms.map((room) => (
+              <option key={room.roomId} value={room.roomId}>
+                {room.roomId}
+              </option>
+            ))}
+          </select>
+        )}
+        <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value)} aria-label="Filter by action">
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+        <button className="secondary small" onClick={() => load()} disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+      {error && <div className="error-message">{error}</div>}
+      {entries.length === 0 && !loading && !error && (
+        <p style={{ color: 'var(--text-muted)', fontSize: '0.85rem' }}>No audit entries.</p>
+      )}
+      {entries.length > 0 && (
+        <ul className="audit-list">
+          {entries.map((entry) => (
+            <li key={entry.auditId} className="audit-entry">
+              <div className="audit-entry-header">
+                <strong>{entry.action}</strong>
+                {entry.roomId && <code>{entry.roomId}</code>}
+                <span>{entry.actor}</span>
+                {entry.ip && <span>{entry.ip}</span>}
+                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="audit-entry-change">
+                <code>{auditSummary(entry.before)}</code>
+                <span>&rarr;</span>
+                <code>{auditSummary(entry.after)}</code>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {nextBefore !== null && (
+        <button className="secondary small" onClick={() => load(nextBefore)} disabled={loading}>
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
+
 export default function Admin() {
   // Admin token state
   const [adminToken, setAdminToken] = useState(() => {
@@ -30,24 +750,34 @@ export default function Admin() {
   const [isAuthenticated, setIsAuthenticated] = useState(() => {
     return !!localStorage.getItem('adminToken');
   });
+  // Scope of the token: global admin, or owner of a single room
+  const [session, setSession] = useState<AdminSession | null>(null);
+  const isGlobal = session?.scope === 'global';
 
   // Create recipe state
   const [createName, setCreateName] = useState('');
+  const [createKdf, setCreateKdf] = useState<KdfAlg>('argon2id');
   const [createLoading, setCreateLoading] = useState(false);
   const [createError, setCreateError] = useState('');
   const [createInviteKit, setCreateInviteKit] = useState<InviteKit | null>(null);
 
   // Rotate passphrase state
   const [rotateRoomId, setRotateRoomId] = useState('');
+  const [rotateKdf, setRotateKdf] = useState<KdfAlg>('argon2id');
   const [rotateLoading, setRotateLoading] = useState(false);
   const [rotateError, setRotateError] = useState('');
   const [rotateInviteKit, setRotateInviteKit] = useState<InviteKit | null>(null);
 
   // Room list state
   const [rooms, setRooms] = useState<AdminRoom[]>([]);
+  // Titles decrypted with passphrases this browser holds, by room ID
+  const [roomTitles, setRoomTitles] = useState<Record<string, string | null>>({});
   const [roomsLoading, setRoomsLoading] = useState(false);
   const [roomsError, setRoomsError] = useState('');
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [tokensOpenFor, setTokensOpenFor] = useState<string | null>(null);
+  const [moderateOpenFor, setModerateOpenFor] = useState<string | null>(null);
+  const [invitesOpenFor, setInvitesOpenFor] = useState<string | null>(null);
 
   // Set admin token
   const handleSetToken = (e: FormEvent) => {
@@ -66,6 +796,7 @@ export default function Admin() {
     localStorage.removeItem('adminToken');
     setAdminToken('');
     setIsAuthenticated(false);
+    setSession(null);
   };
 
   // Create recipe
@@ -90,22 +821,39 @@ export default function Admin() {
     }
 
     try {
-      // Create room with slug as ID and original name as title
+      // Generate passphrase client-side
+      const { passphrase, key, params } = await prepareRoomKey(slug, createKdf);
+
+      // Create room with slug as ID; the original name is encrypted as its title
+      const meta = { version: 1, ...(await encryptRoomMetadata(key, slug, 1, { title: name })) };
       const room = await createRoom(adminToken, {
         slug,
-        title: name,
+        meta,
+        ...params,
       });
 
-      // Generate passphrase client-side
-      const passphrase = generatePassphrase();
+      // Keep the passphrase so this browser can show the title, and the member
+      // pass so it can still open the recipe once it has invites
+      saveRoomPassphrase(room.roomId, room.version, passphrase, {
+        saltB64: params.saltB64,
+        kdfAlg: params.kdfAlg,
+        kdfIters: params.kdfIters,
+        kdfMemoryKiB: params.kdfMemoryKiB,
+        kdfParallelism: params.kdfParallelism,
+      });
+      saveMemberPass(room.roomId, room.memberPass);
 
       // Build share link with passphrase in fragment (never sent to server)
-      const shareLink = `${window.location.origin}/join/${encodeURIComponent(room.roomId)}#${passphrase}`;
+      const { token } = await createInvite(adminToken, room.roomId, {
+        label: 'Share link',
+        ttlMs: KIT_INVITE_TTL_DAYS * DAY_MS,
+      });
+      const shareLink = inviteLink(room.roomId, token, passphrase);
 
       // Show invite kit
       setCreateInviteKit({
         roomId: room.roomId,
-        title: room.title,
+        title: name,
         passphrase,
         shareLink,
       });
@@ -135,25 +883,45 @@ export default function Admin() {
     }
 
     try {
-      // Rotate on server
-      const room = await rotatePassphrase(adminToken, roomId);
+      // Read the current metadata (if we hold its passphrase) to re-encrypt it under the new key
+      const current = await getRoom(roomId, { fresh: true });
+      const metadata = await readRoomMetadata(current);
 
       // Generate new passphrase client-side
-      const passphrase = generatePassphrase();
+      const { passphrase, key, params } = await prepareRoomKey(roomId, rotateKdf);
+      const newVersion = current.version + 1;
+      const meta =
+        metadata && Object.keys(metadata).length > 0
+          ? { version: newVersion, ...(await encryptRoomMetadata(key, roomId, newVersion, metadata)) }
+          : undefined;
+
+      // Rotate on server
+      const room = await rotatePassphrase(adminToken, roomId, { ...params, meta });
+      saveRoomPassphrase(room.roomId, room.version, passphrase, {
+        saltB64: params.saltB64,
+        kdfAlg: params.kdfAlg,
+        kdfIters: params.kdfIters,
+        kdfMemoryKiB: params.kdfMemoryKiB,
+        kdfParallelism: params.kdfParallelism,
+      });
 
       // Build share link
-      const shareLink = `${window.location.origin}/join/${encodeURIComponent(room.roomId)}#${passphrase}`;
+      const { token } = await createInvite(adminToken, room.roomId, {
+        label: 'Share link after rotation',
+        ttlMs: KIT_INVITE_TTL_DAYS * DAY_MS,
+      });
+      const shareLink = inviteLink(room.roomId, token, passphrase);
 
       // Show invite kit
       setRotateInviteKit({
         roomId: room.roomId,
-        title: null,
+        title: metadata?.title || null,
         passphrase,
         shareLink,
       });
 
-      // Clear form
-      setRotateRoomId('');
+      // Clear form (owners can only ever rotate their own recipe)
+      if (session?.scope !== 'room') setRotateRoomId('');
     } catch (err) {
       setRotateError(err instanceof Error ? err.message : 'Failed to rotate passphrase');
     } finally {
@@ -169,6 +937,15 @@ export default function Admin() {
     try {
       const { rooms: roomList } = await listRooms(adminToken);
       setRooms(roomList);
+
+      // Titles are encrypted; decrypt the ones we hold a passphrase for
+      const titles = await Promise.all(
+        roomList.map(async (room) => {
+          const metadata = await readRoomMetadata(room).catch(() => null);
+          return [room.roomId, metadata?.title || null] as const;
+        })
+      );
+      setRoomTitles(Object.fromEntries(titles));
     } catch (err) {
       setRoomsError(err instanceof Error ? err.message : 'Failed to load rooms');
     } finally {
@@ -183,6 +960,17 @@ export default function Admin() {
     }
   }, [isAuthenticated, loadRooms]);
 
+  // Find out what this token may do; owner tokens are tied to one recipe
+  useEffect(() => {
+    if (!isAuthenticated || !adminToken) return;
+    getAdminSession(adminToken)
+      .then((current) => {
+        setSession(current);
+        if (current.scope === 'room') setRotateRoomId(current.roomId);
+      })
+      .catch((err) => setRoomsError(err instanceof Error ? err.message : 'Failed to check admin token'));
+  }, [isAuthenticated, adminToken]);
+
   // Delete room
   const handleDeleteRoom = async (roomId: string) => {
     try {
@@ -194,6 +982,26 @@ export default function Admin() {
     }
   };
 
+  // Change how long a room's messages are kept; the server purges older ones in the background
+  const handleSaveRetention = async (roomId: string, retention: RetentionPolicy) => {
+    try {
+      await updateRoom(adminToken, roomId, { retention });
+      setRooms((prev) => prev.map((r) => (r.roomId === roomId ? { ...r, retention } : r)));
+    } catch (err) {
+      setRoomsError(err instanceof Error ? err.message : 'Failed to update retention');
+    }
+  };
+
+  // Switch new messages between the passphrase key and member-agreed group keys
+  const handleSaveGroupKeys = async (roomId: string, groupKeys: boolean) => {
+    try {
+      await updateRoom(adminToken, roomId, { groupKeys });
+      setRooms((prev) => prev.map((r) => (r.roomId === roomId ? { ...r, groupKeys } : r)));
+    } catch (err) {
+      setRoomsError(err instanceof Error ? err.message : 'Failed to update group keys');
+    }
+  };
+
   // Copy feedback state
   const [copied, setCopied] = useState<string | null>(null);
 
@@ -219,7 +1027,7 @@ export default function Admin() {
       <div className="admin">
         <h1>Admin</h1>
         <p style={{ color: 'var(--text-secondary)', marginBottom: '1.5rem' }}>
-          Enter your admin token to continue.
+          Enter your admin token, or the owner token for your recipe, to continue.
         </p>
 
         <form className="admin-form" onSubmit={handleSetToken}>
@@ -249,97 +1057,111 @@ export default function Admin() {
   return (
     <div className="admin">
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '2rem' }}>
-        <h1>Admin</h1>
+        <div>
+          <h1>Admin</h1>
+          {session && (
+            <div style={{ fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+              {session.scope === 'global' ? 'Global admin' : `Owner of ${session.roomId}`}
+            </div>
+          )}
+        </div>
         <button className="secondary small" onClick={handleLogout}>
           Logout
         </button>
       </div>
 
       {/* Create Recipe Section */}
-      <div className="admin-section">
-        <h2>Create Recipe</h2>
-        <form className="admin-form" onSubmit={handleCreateRecipe}>
-          <div>
-            <label htmlFor="create-name">Recipe Name</label>
-            <input
-              id="create-name"
-              type="text"
-              value={createName}
-              onChange={(e) => setCreateName(e.target.value)}
-              placeholder="e.g., grandma's cookies"
-              maxLength={64}
-            />
-            {createName.trim() && (
-              <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)', marginTop: '0.25rem' }}>
-                URL: {slugify(createName.trim())}
-              </div>
-            )}
-          </div>
-          <button type="submit" disabled={createLoading || !createName.trim()}>
-            {createLoading ? 'Creating...' : 'Create Recipe'}
-          </button>
-          {createError && <div className="error-message">{createError}</div>}
-        </form>
+      {isGlobal && (
+        <div className="admin-section">
+          <h2>Create Recipe</h2>
+          <form className="admin-form" onSubmit={handleCreateRecipe}>
+            <div>
+              <label htmlFor="create-name">Recipe Name</label>
+              <input
+                id="create-name"
+                type="text"
+                value={createName}
+                onChange={(e) => setCreateName(e.target.value)}
+                placeholder="e.g., grandma's cookies"
+                maxLength={64}
+              />
+              {createName.trim() && (
+                <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)', marginTop: '0.25rem' }}>
+                  URL: {slugify(createName.trim())}
+                </div>
+              )}
+            </div>
+            <KdfSelect id="create-kdf" value={createKdf} onChange={setCreateKdf} />
+            <button type="submit" disabled={createLoading || !createName.trim()}>
+              {createLoading ? 'Creating...' : 'Create Recipe'}
+            </button>
+            {createError && <div className="error-message">{createError}</div>}
+          </form>
 
-        {createInviteKit && (
-          <div className="invite-kit">
-            <h3>Share Link</h3>
-            <div className="invite-kit-item">
-              <div className="invite-kit-label">Send this link to invite people</div>
-              <div className="invite-kit-value" style={{ flexDirection: 'column', alignItems: 'stretch' }}>
-                <code style={{ fontSize: '0.7rem', wordBreak: 'break-all' }}>{createInviteKit.shareLink}</code>
-                <button
-                  className="secondary small"
-                  style={{ alignSelf: 'flex-start', marginTop: '0.5rem' }}
-                  onClick={() => copyToClipboard(createInviteKit.shareLink, 'create-link')}
-                >
-                  {copied === 'create-link' ? 'Copied!' : 'Copy Link'}
-                </button>
+          {createInviteKit && (
+            <div className="invite-kit">
+              <h3>Share Link</h3>
+              <div className="invite-kit-item">
+                <div className="invite-kit-label">Send this link to invite people (it stops working after {KIT_INVITE_TTL_DAYS} days)</div>
+                <div className="invite-kit-value" style={{ flexDirection: 'column', alignItems: 'stretch' }}>
+                  <code style={{ fontSize: '0.7rem', wordBreak: 'break-all' }}>{createInviteKit.shareLink}</code>
+                  <button
+                    className="secondary small"
+                    style={{ alignSelf: 'flex-start', marginTop: '0.5rem' }}
+                    onClick={() => copyToClipboard(createInviteKit.shareLink, 'create-link')}
+                  >
+                    {copied === 'create-link' ? 'Copied!' : 'Copy Link'}
+                  </button>
+                </div>
               </div>
-            </div>
-            <details style={{ marginTop: '0.75rem' }}>
-              <summary style={{ fontSize: '0.8rem', color: 'var(--text-muted)', cursor: 'pointer' }}>
-                Manual entry details
-              </summary>
-              <div style={{ marginTop: '0.5rem' }}>
-                <div className="invite-kit-item">
-                  <div className="invite-kit-label">Recipe Name</div>
-                  <div className="invite-kit-value">
-                    <code>{createInviteKit.roomId}</code>
-                    <button
-                      className="secondary small"
-                      onClick={() => copyToClipboard(createInviteKit.roomId, 'create-code')}
-                    >
-                      {copied === 'create-code' ? 'Copied!' : 'Copy'}
-                    </button>
+              <div className="invite-kit-item">
+                <div className="invite-kit-label">Invite card</div>
+                <InviteCard kit={createInviteKit} />
+              </div>
+              <details style={{ marginTop: '0.75rem' }}>
+                <summary style={{ fontSize: '0.8rem', color: 'var(--text-muted)', cursor: 'pointer' }}>
+                  Manual entry details
+                </summary>
+                <div style={{ marginTop: '0.5rem' }}>
+                  <div className="invite-kit-item">
+                    <div className="invite-kit-label">Recipe Name</div>
+                    <div className="invite-kit-value">
+                      <code>{createInviteKit.roomId}</code>
+                      <button
+                        className="secondary small"
+                        onClick={() => copyToClipboard(createInviteKit.roomId, 'create-code')}
+                      >
+                        {copied === 'create-code' ? 'Copied!' : 'Copy'}
+                      </button>
+                    </div>
                   </div>
-                </div>
-                <div className="invite-kit-item">
-                  <div className="invite-kit-label">Passphrase</div>
-                  <div className="invite-kit-value">
-                    <code>{createInviteKit.passphrase}</code>
-                    <button
-                      className="secondary small"
-                      onClick={() => copyToClipboard(createInviteKit.passphrase, 'create-pass')}
-                    >
-                      {copied === 'create-pass' ? 'Copied!' : 'Copy'}
-                    </button>
+                  <div className="invite-kit-item">
+                    <div className="invite-kit-label">Passphrase</div>
+                    <div className="invite-kit-value">
+                      <code>{formatPassphrase(createInviteKit.passphrase)}</code>
+                      <button
+                        className="secondary small"
+                        onClick={() => copyToClipboard(createInviteKit.passphrase, 'create-pass')}
+                      >
+                        {copied === 'create-pass' ? 'Copied!' : 'Copy'}
+                      </button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </details>
-            <p className="invite-kit-warning">
-              Save this link or passphrase now. It will not be shown again.
-            </p>
-          </div>
-        )}
-      </div>
+              </details>
+              <p className="invite-kit-warning">
+                Save this link or passphrase now. It will not be shown again.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Rotate Passphrase Section */}
       <div className="admin-section">
         <h2>Rotate Passphrase</h2>
         <p style={{ color: 'var(--text-secondary)', fontSize: '0.85rem', marginBottom: '1rem' }}>
-          Generate a new passphrase for an existing recipe. Previous messages will remain encrypted with the old key.
+          Generate a new passphrase for an existing recipe. Previous messages stay encrypted with the old key; members who had the old passphrase can still read them.
         </p>
         <form className="admin-form" onSubmit={handleRotatePassphrase}>
           <div>
@@ -351,8 +1173,10 @@ export default function Admin() {
               onChange={(e) => setRotateRoomId(e.target.value)}
               placeholder="e.g. grandmas-cookies"
               autoComplete="off"
+              readOnly={session?.scope === 'room'}
             />
           </div>
+          <KdfSelect id="rotate-kdf" value={rotateKdf} onChange={setRotateKdf} />
           <button type="submit" disabled={rotateLoading || !rotateRoomId.trim()}>
             {rotateLoading ? 'Rotating...' : 'Rotate Passphrase'}
           </button>
@@ -363,7 +1187,7 @@ export default function Admin() {
           <div className="invite-kit">
             <h3>New Share Link</h3>
             <div className="invite-kit-item">
-              <div className="invite-kit-label">Send this link to invite people</div>
+              <div className="invite-kit-label">Send this link to invite people (it stops working after {KIT_INVITE_TTL_DAYS} days)</div>
               <div className="invite-kit-value" style={{ flexDirection: 'column', alignItems: 'stretch' }}>
                 <code style={{ fontSize: '0.7rem', wordBreak: 'break-all' }}>{rotateInviteKit.shareLink}</code>
                 <button
@@ -375,6 +1199,10 @@ export default function Admin() {
                 </button>
               </div>
             </div>
+            <div className="invite-kit-item">
+              <div className="invite-kit-label">Invite card</div>
+              <InviteCard kit={rotateInviteKit} />
+            </div>
             <details style={{ marginTop: '0.75rem' }}>
               <summary style={{ fontSize: '0.8rem', color: 'var(--text-muted)', cursor: 'pointer' }}>
                 Manual entry details
@@ -395,7 +1223,7 @@ export default function Admin() {
                 <div className="invite-kit-item">
                   <div className="invite-kit-label">New Passphrase</div>
                   <div className="invite-kit-value">
-                    <code>{rotateInviteKit.passphrase}</code>
+                    <code>{formatPassphrase(rotateInviteKit.passphrase)}</code>
                     <button
                       className="secondary small"
                       onClick={() => copyToClipboard(rotateInviteKit.passphrase, 'rotate-pass')}
@@ -432,13 +1260,29 @@ export default function Admin() {
             {rooms.map((room) => (
               <div key={room.roomId} className="room-list-item">
                 <div className="room-list-info">
-                  <div className="room-list-title">{room.title || 'Untitled'}</div>
+                  <div className="room-list-title">
+                    {roomTitles[room.roomId] || room.title || (room.meta ? 'Encrypted title' : 'Untitled')}
+                  </div>
                   <div className="room-list-meta">
                     <code>{room.roomId}</code>
                     <span>{room.messageCount} messages</span>
                     <span>v{room.version}</span>
                     <span>{new Date(room.createdAt).toLocaleDateString()}</span>
                   </div>
+                  {isGlobal && (
+                    <RetentionControl
+                      key={`${room.retention.mode}:${room.retention.value}`}
+                      retention={room.retention}
+                      onSave={(retention) => handleSaveRetention(room.roomId, retention)}
+                    />
+                  )}
+                  <GroupKeysControl
+                    enabled={room.groupKeys}
+                    onSave={(groupKeys) => handleSaveGroupKeys(room.roomId, groupKeys)}
+                  />
+                  {tokensOpenFor === room.roomId && <OwnerTokens adminToken={adminToken} roomId={room.roomId} />}
+                  {invitesOpenFor === room.roomId && <RoomInvites adminToken={adminToken} roomId={room.roomId} />}
+                  {moderateOpenFor === room.roomId && <ModerationTools adminToken={adminToken} roomId={room.roomId} />}
                 </div>
                 <div className="room-list-actions">
                   {deleteConfirm === room.roomId ? (
@@ -457,12 +1301,36 @@ export default function Admin() {
                       </button>
                     </>
                   ) : (
-                    <button
-                      className="secondary small"
-                      onClick={() => setDeleteConfirm(room.roomId)}
-                    >
-                      Delete
-                    </button>
+                    <>
+                      <button
+                        className="secondary small"
+                        onClick={() => setInvitesOpenFor((open) => (open === room.roomId ? null : room.roomId))}
+                      >
+                        Invites
+                      </button>
+                      <button
+                        className="secondary small"
+                        onClick={() => setModerateOpenFor((open) => (open === room.roomId ? null : room.roomId))}
+                      >
+                        Moderate
+                      </button>
+                      {isGlobal && (
+                        <>
+                          <button
+                            className="secondary small"
+                            onClick={() => setTokensOpenFor((open) => (open === room.roomId ? null : room.roomId))}
+                          >
+                            Owners
+                          </button>
+                          <button
+                            className="secondary small"
+                            onClick={() => setDeleteConfirm(room.roomId)}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </>
                   )}
                 </div>
               </div>
@@ -471,6 +1339,12 @@ export default function Admin() {
         )}
       </div>
 
+      {/* Audit Log Section */}
+      <div className="admin-section">
+        <h2>Audit Log</h2>
+        <AuditLog adminToken={adminToken} rooms={rooms} />
+      </div>
+
       <Link to="/" className="nav-link" style={{ display: 'block', marginTop: '1rem' }}>
         Back to kitchen
       </Link>
@@ -1,7 +1,14 @@
 import { useState, useEffect, FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { getRoom } from '../utils/api';
 import { getRecentRooms, removeRecentRoom, RecentRoom } from '../utils/recentRooms';
+import {
+  saveRoomPassphrase,
+  saveMemberPass,
+  hasRoomCredentials,
+  getRoomForPassphrase,
+  getRoomCredentials,
+} from '../utils/keyRing';
+import { normalizePassphrase } from '../utils/crypto';
 
 const INTRO_TEXT = `This is a small kitchen.
 
@@ -35,7 +42,8 @@ export default function Home() {
       .replace(/[^a-z0-9-]/g, '')
       .replace(/-+/g, '-')
       .replace(/^-|-$/g, '');
-    const trimmedPassphrase = passphrase.trim();
+    // Accepts the grouped form from printed invite cards ("ABCD-EFGH-...")
+    const trimmedPassphrase = normalizePassphrase(passphrase);
 
     if (!trimmedCode || !trimmedPassphrase) {
       setError('Please enter both the recipe name and passphrase.');
@@ -44,17 +52,25 @@ export default function Home() {
     }
 
     try {
-      // Verify room exists before navigating
-      const room = await getRoom(trimmedCode);
+      // Verify room exists and reject a mistyped passphrase now rather than storing it
+      const room = await getRoomForPassphrase(trimmedCode, trimmedPassphrase);
+      if (!room) {
+        setError("That passphrase doesn't open this recipe.");
+        setLoading(false);
+        return;
+      }
+
+      // Newcomers to a room with invites come in through an invite link instead
+      if (room.inviteOnly && !getRoomCredentials(room.roomId)?.memberPass) {
+        setError('This recipe only lets new members in through an invite link. Ask a member for one.');
+        setLoading(false);
+        return;
+      }
 
       // Store credentials in localStorage so they persist across sessions
-      localStorage.setItem(
-        `recipe:${room.roomId}`,
-        JSON.stringify({
-          passphrase: trimmedPassphrase,
-          version: room.version,
-        })
-      );
+      // (added to the room's key ring alongside passphrases for older versions)
+      saveRoomPassphrase(room.roomId, room.version, trimmedPassphrase);
+      if (room.memberPass) saveMemberPass(room.roomId, room.memberPass);
 
       // Navigate to room
       navigate(`/room/${room.roomId}`);
@@ -65,8 +81,7 @@ export default function Home() {
   };
 
   const handleRecentClick = (room: RecentRoom) => {
-    const stored = localStorage.getItem(`recipe:${room.roomId}`);
-    if (stored) {
+    if (hasRoomCredentials(room.roomId)) {
       navigate(`/room/${room.roomId}`);
     } else {
       setRecipeCode(room.roomId);
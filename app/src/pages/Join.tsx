@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { getRoom } from '../utils/api';
+import { saveRoomPassphrase, saveMemberPass, getRoomForPassphrase, getRoomCredentials } from '../utils/keyRing';
+import { redeemInvite } from '../utils/api';
 
 export default function Join() {
   const { roomId } = useParams<{ roomId: string }>();
@@ -15,6 +16,9 @@ export default function Join() {
 
     // Read passphrase from URL fragment (never sent to server)
     const passphrase = window.location.hash.slice(1);
+    // Invite token for links that expire or run out of uses. Links without one only
+    // work for rooms that have never had invites, or for members reopening a room.
+    const inviteToken = new URLSearchParams(window.location.search).get('invite');
     if (!passphrase) {
       setError('This link is missing the passphrase. Ask the person who shared it for a new one.');
       return;
@@ -22,18 +26,36 @@ export default function Join() {
 
     const joinRoom = async () => {
       try {
-        const room = await getRoom(roomId);
+        const room = await getRoomForPassphrase(roomId, passphrase);
+        if (!room) {
+          setError("This link's passphrase doesn't open this recipe. It may be from before the passphrase was changed.");
+          return;
+        }
+
+        // Redeem only once the passphrase checks out, so a mistyped link doesn't use up the invite.
+        // Browsers already holding a member pass are just reopening the recipe.
+        const alreadyJoined = !!getRoomCredentials(room.roomId)?.memberPass;
+        let memberPass = room.memberPass;
+        if (inviteToken && !alreadyJoined) {
+          try {
+            ({ memberPass } = await redeemInvite(room.roomId, inviteToken));
+          } catch (err) {
+            window.history.replaceState(null, '', window.location.pathname);
+            setError(err instanceof Error ? err.message : "This invite link isn't valid.");
+            return;
+          }
+        } else if (room.inviteOnly && !alreadyJoined) {
+          window.history.replaceState(null, '', window.location.pathname);
+          setError('This link has no invite, and this recipe only lets new members in through an invite link. Ask for a new one.');
+          return;
+        }
 
         // Store credentials in localStorage so they persist across sessions
-        localStorage.setItem(
-          `recipe:${room.roomId}`,
-          JSON.stringify({
-            passphrase,
-            version: room.version,
-          })
-        );
+        // (added to the room's key ring alongside passphrases for older versions)
+        saveRoomPassphrase(room.roomId, room.version, passphrase);
+        if (memberPass) saveMemberPass(room.roomId, memberPass);
 
-        // Clear the fragment from URL history before navigating
+        // Clear the fragment and invite from URL history before navigating
         window.history.replaceState(null, '', window.location.pathname);
 
         navigate(`/room/${room.roomId}`, { replace: true });
@@ -1,46 +1,246 @@
-import { useState, useEffect, useRef, FormEvent } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, FormEvent } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { getRoom, getHistory, getWebSocketUrl, RoomInfo, HistoryMessage } from '../utils/api';
+import {
+  getRoom,
+  getHistory,
+  getWebSocketUrl,
+  setRoomAuth,
+  InviteRequiredError,
+  RoomInfo,
+  HistoryMessage,
+  HistoryRevision,
+  PresenceMember,
+  GroupFrame,
+} from '../utils/api';
 import { saveRecentRoom } from '../utils/recentRooms';
-import { getCachedMessages, setCachedMessages, appendCachedMessage } from '../utils/messageCache';
+import { getRoomCredentials, saveMemberPass, deriveRoomKeys, readRoomMetadata } from '../utils/keyRing';
+import {
+  getCachedMessages,
+  setCachedMessages,
+  appendCachedMessage,
+  updateCachedMessage,
+  removeCachedMessages,
+  isExpired,
+  CachedMessage,
+} from '../utils/messageCache';
 import {
-  deriveKeyPBKDF2,
+  deriveRoomKey,
+  createAuthProof,
+  hashDisplayName,
   encryptPayload,
   decryptPayload,
+  encryptRevision,
+  decryptRevision,
+  encryptPresenceName,
+  decryptPresenceName,
+  revisionSigningId,
   generateMsgId,
   MessagePayload,
+  RevisionPayload,
+  AttachmentRef,
   generateSigningKeypair,
   exportPublicKeyJwk,
   importPublicKeyJwk,
   signMessage,
   verifySignature,
+  signedContentOf,
   computeKeyFingerprint,
+  certifyRoomKey,
+  verifyRoomKeyCert,
 } from '../utils/crypto';
+import { RecipeCard, parseRecipeCard, recipeSummary } from '../utils/recipe';
+import { RecipeCardView, RecipeComposer } from '../components/RecipeCard';
+import { AttachmentImage } from '../components/AttachmentImage';
+import { uploadImageAttachment, parseAttachmentRefs, MAX_ATTACHMENTS_PER_MESSAGE } from '../utils/attachments';
 import {
   getOwnKeypair,
   saveOwnKeypair,
-  getTrustedKey,
-  saveTrustedKey,
+  getDeviceIdentity,
+  saveDeviceIdentity,
+  checkSenderTrust,
   jwkEqual,
+  StoredKeypair,
   TrustStatus,
 } from '../utils/keyStore';
+import {
+  loadAgreementKeypair,
+  createMemberFrame,
+  createMemberProofFrame,
+  applyGroupFrame,
+  currentEpochKey,
+  needsRotation,
+  createEpochFrame,
+  GroupKeyState,
+  OwnGroupIdentity,
+} from '../utils/groupKeys';
+import {
+  getOutbox,
+  getOutboxEntry,
+  putOutboxEntry,
+  updateOutboxEntry,
+  removeOutboxEntry,
+  removeOutboxEntries,
+  OutboxEntry,
+} from '../utils/outbox';
+
+// Throttle for outgoing typing frames, and how long a received one stays visible
+const TYPING_SEND_INTERVAL_MS = 3000;
+const TYPING_DISPLAY_MS = 5000;
+
+// History is loaded (and paged backwards on scroll) in pages of this size
+const HISTORY_PAGE_SIZE = 50;
+// Start loading older history when scrolled within this many pixels of the top
+const LOAD_OLDER_THRESHOLD_PX = 120;
+
+// Catch-up after reconnect is fetched in pages of this size, up to a page limit.
+// The messages already on screen are re-fetched the same way, newest first.
+const BACKFILL_PAGE_SIZE = 100;
+const MAX_BACKFILL_PAGES = 10;
+
+// Retryable nacks (rate limit, storage errors) are resent with exponential backoff
+// until this many attempts, then the message is marked failed for a manual retry
+const OUTBOX_MAX_ATTEMPTS = 5;
+const OUTBOX_RETRY_BASE_MS = 2000;
+
+// The server closes a banned key's sockets, and every socket of a deleted room,
+// with these codes; reconnecting wouldn't help
+const BANNED_CLOSE_CODE = 4003;
+const ROOM_DELETED_CLOSE_CODE = 4004;
+
+// Members who see the same roster change wait up to this long before rotating the
+// group key, so usually one of them does it before the others try
+const GROUP_ROTATION_JITTER_MS = 2000;
+const GROUP_KEY_WAITING = 'Waiting for a member to add you to the group key.';
+
+// Lifetimes a sender can pick for a disappearing message (0 = keeps like any other)
+const DISAPPEAR_OPTIONS = [
+  { label: 'Keep', ms: 0 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '1 week', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+// Re-check expiry at least this often; setTimeout can't wait out a long TTL in one go
+const EXPIRY_CHECK_MAX_MS = 60 * 60 * 1000;
 
 interface DecryptedMessage {
   msgId: string;
+  // Absent until the server has stored the message (optimistic sends, old cache entries)
+  seq?: number;
   displayName: string;
   text: string;
+  // Structured card for recipe messages; `text` then holds its plain summary
+  recipe?: RecipeCard;
+  attachments?: AttachmentRef[];
   clientTs: number;
   createdAt: string;
   isOwn: boolean;
   error?: boolean;
   trustStatus: TrustStatus;
+  // Verified signing key of the original message; revisions must be signed by it
+  senderPublicKeyJwk?: JsonWebKey;
+  edited?: boolean;
+  deleted?: boolean;
+  // When the message disappears for everyone (ISO time), if the sender chose that
+  expiresAt?: string;
+  // Delivery state of our own messages sent this session; absent for stored history
+  status?: 'pending' | 'sent' | 'failed';
+  failureReason?: string;
+}
+
+// Still in the outbox: not (yet) stored by the server
+function isUnsent(m: DecryptedMessage): boolean {
+  return m.status === 'pending' || m.status === 'failed';
+}
+
+function fromOutboxEntry(entry: OutboxEntry): DecryptedMessage {
+  return {
+    ...entry.message,
+    isOwn: true,
+    trustStatus: entry.senderPublicKeyJwk ? 'verified' : 'unsigned',
+    senderPublicKeyJwk: entry.senderPublicKeyJwk,
+    status: entry.status,
+    failureReason: entry.error,
+  };
+}
+
+function toCachedMessage(m: DecryptedMessage): CachedMessage {
+  return {
+    msgId: m.msgId,
+    seq: m.seq,
+    displayName: m.displayName,
+    text: m.text,
+    recipe: m.recipe,
+    attachments: m.attachments,
+    clientTs: m.clientTs,
+    createdAt: m.createdAt,
+    edited: m.edited,
+    deleted: m.deleted,
+    expiresAt: m.expiresAt,
+  };
+}
+
+// Merge messages by msgId and keep them in server sequence order.
+// Messages without a seq yet (optimistic sends) stay at the end in arrival order.
+// An unsent message that turns up in incoming history has been stored after all.
+function mergeMessages(prev: DecryptedMessage[], incoming: DecryptedMessage[]): DecryptedMessage[] {
+  const byId = new Map(prev.map((m) => [m.msgId, m]));
+  for (const m of incoming) {
+    const existing = byId.get(m.msgId);
+    byId.set(
+      m.msgId,
+      existing
+        ? {
+            ...existing,
+            seq: m.seq,
+            createdAt: m.createdAt,
+            status: existing.status ? 'sent' : undefined,
+            failureReason: undefined,
+          }
+        : m
+    );
+  }
+  return Array.from(byId.values()).sort((a, b) => {
+    if (a.seq === undefined && b.seq === undefined) return 0;
+    if (a.seq === undefined) return 1;
+    if (b.seq === undefined) return -1;
+    return a.seq - b.seq;
+  });
+}
+
+function formatTyping(names: string[]): string {
+  if (names.length === 1) return `${names[0]} is typing...`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+  return 'Several people are typing...';
+}
+
+// Import a stored ECDSA keypair, or generate and store a new one
+async function loadSigningKeypair(
+  stored: StoredKeypair | undefined,
+  save: (keypair: StoredKeypair) => Promise<void>
+): Promise<{ privateKey: CryptoKey; publicKeyJwk: JsonWebKey }> {
+  if (stored) {
+    const privateKey = await crypto.subtle.importKey(
+      'jwk',
+      stored.privateKeyJwk,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign']
+    );
+    return { privateKey, publicKeyJwk: stored.publicKeyJwk };
+  }
+
+  const keypair = await generateSigningKeypair();
+  const publicKeyJwk = await exportPublicKeyJwk(keypair.publicKey);
+  const privateKeyJwk = await crypto.subtle.exportKey('jwk', keypair.privateKey);
+  await save({ publicKeyJwk, privateKeyJwk });
+  return { privateKey: keypair.privateKey, publicKeyJwk };
 }
 
 function TrustIndicator({ status }: { status: TrustStatus }) {
   switch (status) {
     case 'verified':
       return (
-        <span className="trust-indicator trust-verified" title="Verified sender (key matches)">
+        <span className="trust-indicator trust-verified" title="Verified sender (identity seen before)">
           <svg width="12" height="12" viewBox="0 0 12 12" fill="none" aria-hidden="true">
             <path d="M2.5 6L5 8.5L9.5 3.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
           </svg>
@@ -48,7 +248,7 @@ function TrustIndicator({ status }: { status: TrustStatus }) {
       );
     case 'new':
       return (
-        <span className="trust-indicator trust-new" title="New sender (key stored on first use)">
+        <span className="trust-indicator trust-new" title="New sender (identity stored on first use)">
           <svg width="10" height="10" viewBox="0 0 10 10" fill="none" aria-hidden="true">
             <circle cx="5" cy="5" r="3" fill="currentColor"/>
           </svg>
@@ -56,7 +256,7 @@ function TrustIndicator({ status }: { status: TrustStatus }) {
       );
     case 'mismatch':
       return (
-        <span className="trust-indicator trust-mismatch" title="Warning: sender key changed!">
+        <span className="trust-indicator trust-mismatch" title="Warning: sender identity changed!">
           <svg width="12" height="12" viewBox="0 0 12 12" fill="none" aria-hidden="true">
             <path d="M6 2L1 10.5H11L6 2Z" stroke="currentColor" strokeWidth="1.2" strokeLinejoin="round"/>
             <line x1="6" y1="5.5" x2="6" y2="7.5" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round"/>
@@ -75,6 +275,8 @@ export default function Room() {
   const navigate = useNavigate();
 
   const [room, setRoom] = useState<RoomInfo | null>(null);
+  // Decrypted room title (the server only holds it encrypted)
+  const [roomTitle, setRoomTitle] = useState<string | null>(null);
   const [cryptoKey, setCryptoKey] = useState<CryptoKey | null>(null);
   const [messages, setMessages] = useState<DecryptedMessage[]>([]);
   const [messageInput, setMessageInput] = useState('');
@@ -83,49 +285,123 @@ export default function Room() {
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('disconnected');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(true);
+  // Key versions derived so far while Argon2id keys are being unlocked
+  const [unlocking, setUnlocking] = useState<{ done: number; total: number } | null>(null);
 
   const [signingActive, setSigningActive] = useState(false);
+  const [editingMsgId, setEditingMsgId] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [showRecipeComposer, setShowRecipeComposer] = useState(false);
+  // Our own recipe card being edited in the recipe composer
+  const [editingRecipe, setEditingRecipe] = useState<DecryptedMessage | null>(null);
+  // Photos picked for the next message, uploaded when it is sent
+  const [pendingImages, setPendingImages] = useState<File[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [composerError, setComposerError] = useState('');
+  // Lifetime for the next message, in ms (0 = doesn't disappear)
+  const [messageTtl, setMessageTtl] = useState(0);
+
+  // Presence roster (fingerprint -> display name) and typing expiry times (fingerprint -> ms)
+  const [presence, setPresence] = useState<Record<string, string>>({});
+  const [typing, setTyping] = useState<Record<string, number>>({});
+  const lastTypingSentRef = useRef(0);
+
+  // Highest seq received without gaps; null until history has loaded
+  const lastSeqRef = useRef<number | null>(null);
+  // Messages we couldn't decrypt, as received, to retry once their group key arrives
+  const undecryptableRef = useRef<Map<string, HistoryMessage>>(new Map());
+  const backfillingRef = useRef(false);
+  // Latest messages, for WebSocket handlers that outlive the render they were made in
+  const messagesRef = useRef<DecryptedMessage[]>([]);
+
+  // Older history paging
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
 
   const wsRef = useRef<WebSocket | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const signingKeyRef = useRef<{ privateKey: CryptoKey; publicKeyJwk: JsonWebKey; fingerprint: string } | null>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastMsgIdRef = useRef<string | null>(null);
+  // Scroll metrics captured before prepending older history, restored after render
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // Keys for every passphrase version we hold, so pre-rotation messages still decrypt
+  const keyRingRef = useRef<Map<number, CryptoKey>>(new Map());
+  // Current version's key for hashing our display name into a server-side name claim
+  const nameKeyRef = useRef<CryptoKey | null>(null);
+  // Our signing key for this room, with the device identity's certificate for it
+  const signingKeyRef = useRef<{
+    privateKey: CryptoKey;
+    publicKeyJwk: JsonWebKey;
+    fingerprint: string;
+    identityPublicKeyJwk: JsonWebKey;
+    identityCertB64: string;
+  } | null>(null);
+  // Group key state in rooms with group keys, and the latest epoch we hold the key of
+  const groupRef = useRef<GroupKeyState | null>(null);
+  const groupIdentityRef = useRef<OwnGroupIdentity | null>(null);
+  const groupQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Challenge of the socket we last proved our member key on
+  const provenChallengeRef = useRef<string | null>(null);
+  const rotationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [groupEpoch, setGroupEpoch] = useState<number | null>(null);
 
-  // Scroll to bottom when new messages arrive
   useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // Scroll to bottom when new messages arrive at the end (not when older history is prepended)
+  useEffect(() => {
+    const lastMsgId = messages.length > 0 ? messages[messages.length - 1].msgId : null;
+    if (lastMsgId === lastMsgIdRef.current) return;
+    lastMsgIdRef.current = lastMsgId;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Initialize signing keypair when displayName and roomId are set
+  // Keep the viewport on the same message after older history is prepended
+  useLayoutEffect(() => {
+    const anchor = prependAnchorRef.current;
+    const container = messagesContainerRef.current;
+    if (!anchor || !container) return;
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    prependAnchorRef.current = null;
+  }, [messages]);
+
+  // Drop disappearing messages the moment they expire, whether or not we're connected
+  useEffect(() => {
+    if (!roomId) return;
+    const expiries = messages.filter((m) => m.expiresAt).map((m) => Date.parse(m.expiresAt as string));
+    if (expiries.length === 0) return;
+
+    const delay = Math.min(Math.max(0, Math.min(...expiries) - Date.now()), EXPIRY_CHECK_MAX_MS);
+    const timer = setTimeout(() => {
+      removeMessages(roomId, messages.filter((m) => isExpired(m)).map((m) => m.msgId));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [messages, roomId]);
+
+  // Initialize signing keypair when displayName and roomId are set. The keypair is
+  // the room's, kept across renames; the name only finds one stored per name before.
   useEffect(() => {
     if (!roomId || !displayName || showNameModal) return;
 
     const initKeypair = async () => {
       try {
-        let publicKeyJwk: JsonWebKey;
-        let privateKey: CryptoKey;
-
-        const stored = await getOwnKeypair(roomId, displayName);
-        if (stored) {
-          // Re-import private key from stored JWK
-          privateKey = await crypto.subtle.importKey(
-            'jwk',
-            stored.privateKeyJwk,
-            { name: 'ECDSA', namedCurve: 'P-256' },
-            false,
-            ['sign']
-          );
-          publicKeyJwk = stored.publicKeyJwk;
-        } else {
-          // Generate new keypair
-          const keypair = await generateSigningKeypair();
-          publicKeyJwk = await exportPublicKeyJwk(keypair.publicKey);
-          const privateKeyJwk = await crypto.subtle.exportKey('jwk', keypair.privateKey);
-          await saveOwnKeypair(roomId, displayName, { publicKeyJwk, privateKeyJwk });
-          privateKey = keypair.privateKey;
-        }
+        const identity = await loadSigningKeypair(await getDeviceIdentity(), saveDeviceIdentity);
+        const { privateKey, publicKeyJwk } = await loadSigningKeypair(
+          await getOwnKeypair(roomId, displayName),
+          (keypair) => saveOwnKeypair(roomId, keypair)
+        );
 
         const fingerprint = await computeKeyFingerprint(publicKeyJwk);
-        signingKeyRef.current = { privateKey, publicKeyJwk, fingerprint };
+        const identityCertB64 = await certifyRoomKey(identity.privateKey, roomId, publicKeyJwk);
+        signingKeyRef.current = {
+          privateKey,
+          publicKeyJwk,
+          fingerprint,
+          identityPublicKeyJwk: identity.publicKeyJwk,
+          identityCertB64,
+        };
         setSigningActive(true);
       } catch (err) {
         console.error('Failed to initialize signing keypair:', err);
@@ -143,20 +419,13 @@ export default function Room() {
         return;
       }
 
-      // Get stored credentials (check localStorage, fall back to sessionStorage for migration)
-      const stored = localStorage.getItem(`recipe:${roomId}`) || sessionStorage.getItem(`recipe:${roomId}`);
-      if (!stored) {
+      // Get stored credentials (passphrase per key version)
+      const credentials = getRoomCredentials(roomId);
+      if (!credentials) {
         navigate('/');
         return;
       }
 
-      // Migrate sessionStorage to localStorage if needed
-      if (!localStorage.getItem(`recipe:${roomId}`) && sessionStorage.getItem(`recipe:${roomId}`)) {
-        localStorage.setItem(`recipe:${roomId}`, stored);
-      }
-
-      const { passphrase: storedPassphrase } = JSON.parse(stored);
-
       // Get stored display name
       const storedName = localStorage.getItem(`displayName:${roomId}`);
       if (storedName) {
@@ -175,6 +444,17 @@ export default function Room() {
           trustStatus: 'unsigned' as TrustStatus,
         })));
         setLoading(false);
+        // Catch up from the cache if the first history load fails (e.g. opened offline)
+        const cachedSeqs = cached.filter((m) => m.seq !== undefined).map((m) => m.seq as number);
+        if (cachedSeqs.length > 0) {
+          lastSeqRef.current = Math.max(...cachedSeqs);
+        }
+      }
+
+      // Messages still waiting in the outbox from an earlier visit
+      const unsent = await getOutbox(roomId).catch(() => [] as OutboxEntry[]);
+      if (unsent.length > 0) {
+        setMessages((prev) => mergeMessages(prev, unsent.map(fromOutboxEntry)));
       }
 
       try {
@@ -182,15 +462,40 @@ export default function Room() {
         const roomInfo = await getRoom(roomId);
         setRoom(roomInfo);
 
-        // Track this room for quick switching
-        saveRecentRoom(roomId, roomInfo.title || 'Untitled Recipe');
-
-        // Derive encryption key
-        const key = await deriveKeyPBKDF2(
-          storedPassphrase,
-          roomInfo.saltB64,
-          roomInfo.kdfIters
+        // Derive keys for every version in our key ring. Argon2id is slow enough
+        // to be worth a progress indicator; PBKDF2 finishes before one would show.
+        const usesArgon2 = [roomInfo, ...(roomInfo.keys || [])].some((k) => k.kdfAlg === 'argon2id');
+        const secrets = await deriveRoomKeys(
+          roomId,
+          credentials,
+          roomInfo,
+          usesArgon2 ? (done, total) => setUnlocking({ done, total }) : undefined
         );
+        setUnlocking(null);
+        keyRingRef.current = new Map([...secrets].map(([version, s]) => [version, s.key]));
+
+        // Track this room for quick switching, under its decrypted title
+        const metadata = await readRoomMetadata(roomInfo, keyRingRef.current);
+        const title = metadata?.title || null;
+        setRoomTitle(title);
+        saveRecentRoom(roomId, title || 'Untitled Recipe');
+
+        // Prove membership with the current version's auth key before history and the WebSocket
+        const currentSecrets = secrets.get(roomInfo.version);
+        nameKeyRef.current = currentSecrets?.nameKey || null;
+        if (roomInfo.authRequired && currentSecrets) {
+          setRoomAuth(
+            roomId,
+            (version, nonce) => createAuthProof(currentSecrets.authKeyB64, roomId, version, nonce),
+            { memberPass: credentials.memberPass, onMemberPass: (pass) => saveMemberPass(roomId, pass) }
+          );
+        }
+
+        // Encrypt with the current version's key. Without a passphrase for it,
+        // fall back to the latest one we have, as before key rings existed.
+        const key =
+          currentSecrets?.key ||
+          (await deriveRoomKey(credentials.passphrase, roomInfo.saltB64, roomInfo));
         setCryptoKey(key);
 
         // Load history (will replace cached messages with verified ones)
@@ -200,13 +505,41 @@ export default function Room() {
       } catch (err) {
         console.error('Failed to load room:', err);
         setError("Couldn't open this recipe.");
+        setUnlocking(null);
         setLoading(false);
       }
     };
 
     loadRoom();
+
+    return () => {
+      if (roomId) setRoomAuth(roomId, null);
+    };
   }, [roomId, navigate]);
 
+  // Pick the key for a message's version, falling back to the current key
+  const keyForVersion = (version: number, fallback: CryptoKey): CryptoKey => {
+    return keyRingRef.current.get(version) || fallback;
+  };
+
+  // Key for content under a group key epoch, or else a passphrase version. Throws
+  // for an epoch we hold no key for: one from before we joined, one discarded after
+  // its grace window, or one not unwrapped yet.
+  const keyForContent = (version: number, epoch: number | null | undefined, fallback: CryptoKey): CryptoKey => {
+    if (epoch === null || epoch === undefined) return keyForVersion(version, fallback);
+    const key = groupRef.current?.keys.get(epoch);
+    if (!key) throw new Error(`No group key for epoch ${epoch}`);
+    return key;
+  };
+
+  // Key for new messages and revisions: the latest epoch key in rooms with group
+  // keys, else the current passphrase key. Null while we wait for an epoch key.
+  const sendingKey = (): { key: CryptoKey; epoch?: number } | null => {
+    if (!cryptoKey) return null;
+    if (!room?.groupKeys) return { key: cryptoKey };
+    return currentEpochKey(groupRef.current);
+  };
+
   // Verify signature and check trust store
   const verifyAndCheckTrust = async (
     payload: MessagePayload,
@@ -229,28 +562,40 @@ export default function Room() {
         payload.text,
         payload.displayName,
         payload.clientTs,
-        msgId
+        msgId,
+        signedContentOf(payload)
       );
 
       if (!valid) {
         return 'mismatch';
       }
 
-      // Check trust store
-      const trusted = await getTrustedKey(currentRoomId, payload.displayName);
-
-      if (!trusted) {
-        // First time seeing this user — store key (TOFU)
-        await saveTrustedKey(currentRoomId, payload.displayName, payload.senderPublicKeyJwk);
-        return 'new';
-      }
-
-      if (jwkEqual(trusted.publicKeyJwk, payload.senderPublicKeyJwk)) {
-        return 'verified';
+      // A certificate that doesn't check out is as bad as a bad signature
+      let identity: { publicKeyJwk: JsonWebKey; fingerprint: string } | undefined;
+      if (payload.identityPublicKeyJwk && payload.identityCertB64) {
+        const certified = await verifyRoomKeyCert(
+          payload.identityPublicKeyJwk,
+          payload.identityCertB64,
+          currentRoomId,
+          payload.senderPublicKeyJwk
+        );
+        if (!certified) {
+          return 'mismatch';
+        }
+        identity = {
+          publicKeyJwk: payload.identityPublicKeyJwk,
+          fingerprint: await computeKeyFingerprint(payload.identityPublicKeyJwk),
+        };
       }
 
-      // Key mismatch — possible impersonation
-      return 'mismatch';
+      // Check trust store, by identity rather than by name (TOFU)
+      return await checkSenderTrust({
+        roomId: currentRoomId,
+        displayName: payload.displayName,
+        roomKeyJwk: payload.senderPublicKeyJwk,
+        roomKeyFingerprint: await computeKeyFingerprint(payload.senderPublicKeyJwk),
+        identity,
+      });
     } catch (err) {
       console.error('Signature verification failed:', err);
       return 'mismatch';
@@ -265,7 +610,7 @@ export default function Room() {
     try {
       // Don't filter by version so we get all messages regardless of passphrase rotation
       const { messages: historyMessages } = await getHistory(currentRoomId, {
-        limit: 50,
+        limit: HISTORY_PAGE_SIZE,
       });
 
       const decrypted = await Promise.all(
@@ -276,21 +621,133 @@ export default function Room() {
 
       // Only update messages and cache if we got results (don't overwrite cache with empty)
       if (decrypted.length > 0) {
-        setMessages(decrypted);
-        setCachedMessages(currentRoomId, decrypted.map((m) => ({
-          msgId: m.msgId,
-          displayName: m.displayName,
-          text: m.text,
-          clientTs: m.clientTs,
-          createdAt: m.createdAt,
-        })));
+        await removeOutboxEntries(decrypted.map((m) => m.msgId));
+        // Keep unsent messages from the outbox after the fresh history
+        setMessages((prev) => mergeMessages(prev.filter(isUnsent), decrypted));
+        setCachedMessages(currentRoomId, decrypted.map(toCachedMessage));
       }
+
+      lastSeqRef.current = Math.max(0, ...historyMessages.map((m) => m.seq || 0));
+      setHasOlder(historyMessages.length === HISTORY_PAGE_SIZE);
     } catch (err) {
       console.error('Failed to load history:', err);
       // Keep showing cached messages on error - don't clear them
     }
   };
 
+  // Load the page of history just before the oldest message we have, and prepend it
+  const loadOlder = async () => {
+    if (!room || !cryptoKey || loadingOlder || !hasOlder) return;
+
+    const seqs = messages.filter((m) => m.seq !== undefined).map((m) => m.seq as number);
+    if (seqs.length === 0) return;
+
+    setLoadingOlder(true);
+    try {
+      const { messages: older } = await getHistory(room.roomId, {
+        beforeSeq: Math.min(...seqs),
+        limit: HISTORY_PAGE_SIZE,
+      });
+
+      const decrypted = await Promise.all(
+        older.map((msg) => decryptMessage(msg, room.roomId, cryptoKey))
+      );
+
+      const container = messagesContainerRef.current;
+      if (container) {
+        prependAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+      }
+      setMessages((prev) => mergeMessages(prev, decrypted));
+      setHasOlder(older.length === HISTORY_PAGE_SIZE);
+    } catch (err) {
+      console.error('Failed to load older messages:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (container && container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      loadOlder();
+    }
+  };
+
+  // Fetch everything stored after the last seq we've seen (after a reconnect or a detected gap)
+  const backfill = async (currentRoomId: string, key: CryptoKey) => {
+    if (lastSeqRef.current === null || backfillingRef.current) return;
+    backfillingRef.current = true;
+
+    try {
+      for (let page = 0; page < MAX_BACKFILL_PAGES; page++) {
+        const { messages: missed } = await getHistory(currentRoomId, {
+          afterSeq: lastSeqRef.current,
+          limit: BACKFILL_PAGE_SIZE,
+        });
+        if (missed.length === 0) break;
+
+        const decrypted = await Promise.all(
+          missed.map((msg) => decryptMessage(msg, currentRoomId, key))
+        );
+        lastSeqRef.current = Math.max(lastSeqRef.current, ...missed.map((m) => m.seq));
+        // Anything of ours in here was stored even if its ack never arrived
+        await removeOutboxEntries(missed.map((m) => m.msgId));
+
+        setMessages((prev) => {
+          const merged = mergeMessages(prev, decrypted);
+          setCachedMessages(currentRoomId, merged.filter((m) => !isUnsent(m)).map(toCachedMessage));
+          return merged;
+        });
+
+        if (missed.length < BACKFILL_PAGE_SIZE) break;
+      }
+    } catch (err) {
+      console.error('Failed to backfill messages:', err);
+    } finally {
+      backfillingRef.current = false;
+    }
+  };
+
+  // Re-fetch the stored messages we already show, since catching up by seq only
+  // brings new ones: edits and deletes made while we were away are applied, and
+  // messages the server no longer has (removed, expired or purged) are dropped.
+  const refreshLoaded = async (currentRoomId: string, key: CryptoKey) => {
+    const seqs = messagesRef.current.filter((m) => m.seq !== undefined).map((m) => m.seq as number);
+    if (seqs.length === 0) return;
+    const toSeq = Math.max(...seqs);
+    const fromSeq = Math.max(Math.min(...seqs), toSeq - BACKFILL_PAGE_SIZE * MAX_BACKFILL_PAGES + 1);
+
+    try {
+      const stored: HistoryMessage[] = [];
+      let afterSeq = fromSeq - 1;
+      for (let page = 0; page < MAX_BACKFILL_PAGES && afterSeq < toSeq; page++) {
+        const { messages: batch } = await getHistory(currentRoomId, { afterSeq, limit: BACKFILL_PAGE_SIZE });
+        stored.push(...batch);
+        afterSeq = batch.length < BACKFILL_PAGE_SIZE ? toSeq : batch[batch.length - 1].seq;
+      }
+
+      const fresh = new Map(
+        (await Promise.all(stored.map((msg) => decryptMessage(msg, currentRoomId, key)))).map((m) => [m.msgId, m])
+      );
+      const gone = messagesRef.current
+        .filter((m) => m.seq !== undefined && m.seq >= fromSeq && m.seq <= afterSeq && !fresh.has(m.msgId))
+        .map((m) => m.msgId);
+
+      removeMessages(currentRoomId, gone);
+      setMessages((prev) =>
+        prev.map((m) => {
+          const updated = fresh.get(m.msgId);
+          return updated ? { ...updated, status: m.status ? 'sent' : undefined } : m;
+        })
+      );
+      for (const m of fresh.values()) {
+        updateCachedMessage(currentRoomId, m.msgId, toCachedMessage(m));
+      }
+    } catch (err) {
+      console.error('Failed to refresh messages:', err);
+    }
+  };
+
   // Decrypt a single message
   const decryptMessage = async (
     msg: HistoryMessage,
@@ -299,32 +756,55 @@ export default function Room() {
   ): Promise<DecryptedMessage> => {
     try {
       const payload = await decryptPayload(
-        key,
+        keyForContent(msg.version, msg.epoch, key),
         currentRoomId,
         msg.version,
         msg.msgId,
         msg.ivB64,
-        msg.ciphertextB64
+        msg.ciphertextB64,
+        msg.epoch ?? undefined
       );
 
       const trustStatus = await verifyAndCheckTrust(payload, msg.msgId, currentRoomId);
 
-      return {
+      let decrypted: DecryptedMessage = {
         msgId: msg.msgId,
+        seq: msg.seq,
         displayName: payload.displayName,
         text: payload.text,
+        // A card that fails validation falls back to its text summary
+        recipe: payload.kind === 'recipe' ? parseRecipeCard(payload.recipe) || undefined : undefined,
+        attachments: parseAttachmentRefs(payload.attachments),
         clientTs: payload.clientTs,
         createdAt: msg.createdAt,
+        expiresAt: msg.expiresAt || undefined,
         isOwn: false,
         trustStatus,
+        // Only a key whose signature checked out may authorize edits
+        senderPublicKeyJwk:
+          trustStatus === 'verified' || trustStatus === 'new' ? payload.senderPublicKeyJwk : undefined,
       };
+
+      // Replay stored edits and tombstones in order
+      for (const rev of msg.revisions || []) {
+        decrypted = await applyRevision(decrypted, rev, currentRoomId, key);
+      }
+
+      undecryptableRef.current.delete(msg.msgId);
+      return decrypted;
     } catch {
+      undecryptableRef.current.set(msg.msgId, msg);
       return {
         msgId: msg.msgId,
+        seq: msg.seq,
         displayName: '???',
-        text: '[Unable to decrypt]',
+        text:
+          msg.epoch && !groupRef.current?.keys.has(msg.epoch)
+            ? "[Encrypted under a group key you don't hold]"
+            : '[Unable to decrypt]',
         clientTs: 0,
         createdAt: msg.createdAt,
+        expiresAt: msg.expiresAt || undefined,
         isOwn: false,
         error: true,
         trustStatus: 'unsigned',
@@ -332,17 +812,272 @@ export default function Room() {
     }
   };
 
+  // Apply an edit or delete tombstone if it is signed by the original sender's key.
+  // Anything that fails to decrypt or verify is ignored and the message is left as is.
+  const applyRevision = async (
+    msg: DecryptedMessage,
+    rev: HistoryRevision,
+    currentRoomId: string,
+    key: CryptoKey
+  ): Promise<DecryptedMessage> => {
+    if (msg.deleted || !msg.senderPublicKeyJwk) {
+      return msg;
+    }
+
+    try {
+      const payload = await decryptRevision(
+        keyForContent(rev.version, rev.epoch, key),
+        currentRoomId,
+        rev.version,
+        msg.msgId,
+        rev.revId,
+        rev.ivB64,
+        rev.ciphertextB64,
+        rev.epoch ?? undefined
+      );
+
+      if (
+        payload.kind !== rev.kind ||
+        !payload.signatureB64 ||
+        !payload.senderPublicKeyJwk ||
+        !jwkEqual(payload.senderPublicKeyJwk, msg.senderPublicKeyJwk)
+      ) {
+        return msg;
+      }
+
+      const senderKey = await importPublicKeyJwk(msg.senderPublicKeyJwk);
+      const valid = await verifySignature(
+        senderKey,
+        payload.signatureB64,
+        payload.text,
+        msg.displayName,
+        payload.clientTs,
+        revisionSigningId(rev.kind, msg.msgId, rev.revId),
+        payload.recipe ? { kind: 'recipe', recipe: payload.recipe } : undefined
+      );
+      if (!valid) {
+        return msg;
+      }
+
+      if (rev.kind === 'delete') {
+        return { ...msg, text: '', recipe: undefined, attachments: undefined, deleted: true };
+      }
+      // Recipe edits carry the replacement card; a plain text edit turns the message into text
+      const recipe = payload.recipe ? parseRecipeCard(payload.recipe) || undefined : undefined;
+      return { ...msg, text: payload.text, recipe, edited: true };
+    } catch (err) {
+      console.error('Failed to apply revision:', err);
+      return msg;
+    }
+  };
+
+  // Decrypt a roster entry's display name; entries under another key version stay anonymous
+  const decryptMemberName = async (
+    member: PresenceMember,
+    currentRoomId: string,
+    key: CryptoKey
+  ): Promise<string> => {
+    try {
+      return await decryptPresenceName(
+        keyForVersion(member.version, key),
+        currentRoomId,
+        member.version,
+        member.keyFingerprint,
+        member.nameIvB64,
+        member.nameCiphertextB64
+      );
+    } catch {
+      return 'Someone';
+    }
+  };
+
+  // Forget messages everywhere we keep them: on screen, in the cache and in the outbox
+  const removeMessages = (currentRoomId: string, msgIds: string[]) => {
+    if (msgIds.length === 0) return;
+    setMessages((prev) => prev.filter((m) => !msgIds.includes(m.msgId)));
+    removeCachedMessages(currentRoomId, msgIds);
+    removeOutboxEntries(msgIds).catch((err) => console.error('Failed to clear outbox:', err));
+  };
+
+  // Send an outbox entry if the socket is open. Otherwise it stays pending
+  // until the next connection flushes the outbox.
+  const transmit = async (msgId: string) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    const entry = await getOutboxEntry(msgId);
+    if (!entry || entry.status !== 'pending') return;
+    await putOutboxEntry({ ...entry, attempts: entry.attempts + 1 });
+    ws.send(entry.frame);
+  };
+
+  // Resend everything still pending for the room, oldest first
+  const flushOutbox = async (currentRoomId: string) => {
+    try {
+      for (const entry of await getOutbox(currentRoomId)) {
+        if (entry.status === 'pending') await transmit(entry.msgId);
+      }
+    } catch (err) {
+      console.error('Failed to flush outbox:', err);
+    }
+  };
+
+  const setMessageStatus = (msgId: string, status: DecryptedMessage['status'], failureReason?: string) => {
+    setMessages((prev) => prev.map((m) => (m.msgId === msgId ? { ...m, status, failureReason } : m)));
+  };
+
+  // Start the next group key epoch after a random delay, if the roster has changed
+  // since the latest one. The server takes the first proposal and refuses the rest.
+  const scheduleRotation = (currentRoomId: string) => {
+    const state = groupRef.current;
+    const own = groupIdentityRef.current;
+    if (!state || !own || !needsRotation(state, own.fingerprint) || rotationTimerRef.current) return;
+
+    rotationTimerRef.current = setTimeout(() => {
+      rotationTimerRef.current = null;
+      groupQueueRef.current = groupQueueRef.current
+        .then(async () => {
+          const latest = groupRef.current;
+          const ws = wsRef.current;
+          if (!latest || ws?.readyState !== WebSocket.OPEN || !needsRotation(latest, own.fingerprint)) return;
+          ws.send(await createEpochFrame(latest, own, currentRoomId));
+        })
+        .catch((err) => console.error('Failed to rotate group key:', err));
+    }, Math.random() * GROUP_ROTATION_JITTER_MS);
+  };
+
+  // Fold in a group frame, keep our member card current, and rotate if needed.
+  // Frames are handled one at a time, in the order they arrive.
+  const handleGroupFrame = (frame: GroupFrame, currentRoomInfo: RoomInfo, key: CryptoKey) => {
+    groupQueueRef.current = groupQueueRef.current
+      .then(async () => {
+        const own = groupIdentityRef.current;
+        if (!own) return;
+
+        const prev = groupRef.current;
+        const state = await applyGroupFrame(prev, frame, {
+          roomId: currentRoomInfo.roomId,
+          own,
+          passphraseKeys: keyRingRef.current,
+        });
+        groupRef.current = state;
+        const current = currentEpochKey(state);
+        setGroupEpoch(current?.epoch ?? null);
+        if (current) setComposerError((prev) => (prev === GROUP_KEY_WAITING ? '' : prev));
+
+        // Prove our key on each new socket, then register, or re-seal our card
+        // after a passphrase rotation
+        const ws = wsRef.current;
+        if (frame.challenge && frame.challenge !== provenChallengeRef.current && ws?.readyState === WebSocket.OPEN) {
+          ws.send(await createMemberProofFrame(own, currentRoomInfo.roomId, frame.challenge));
+          provenChallengeRef.current = frame.challenge;
+        }
+        const passphraseKey = keyRingRef.current.get(currentRoomInfo.version);
+        if (state.ownCardVersion !== currentRoomInfo.version && passphraseKey && ws?.readyState === WebSocket.OPEN) {
+          ws.send(await createMemberFrame(own, currentRoomInfo.roomId, currentRoomInfo.version, passphraseKey));
+        }
+
+        scheduleRotation(currentRoomInfo.roomId);
+
+        // Messages that arrived before their epoch key was unwrapped can be read now
+        const retry = Array.from(undecryptableRef.current.values()).filter(
+          (m) => m.epoch && state.keys.has(m.epoch) && !prev?.keys.has(m.epoch)
+        );
+        if (retry.length > 0) {
+          const readable = (
+            await Promise.all(retry.map((m) => decryptMessage(m, currentRoomInfo.roomId, key)))
+          ).filter((m) => !m.error);
+          const byId = new Map(readable.map((m) => [m.msgId, m]));
+          setMessages((current) => current.map((m) => byId.get(m.msgId) || m));
+          for (const m of readable) {
+            updateCachedMessage(currentRoomInfo.roomId, m.msgId, toCachedMessage(m));
+          }
+        }
+      })
+      .catch((err) => console.error('Failed to process group keys:', err));
+  };
+
+  // Our name is claimed by someone else: clear it and ask for another
+  const resetDisplayName = (message: string) => {
+    setError(message);
+    if (roomId) {
+      localStorage.removeItem(`displayName:${roomId}`);
+    }
+    setDisplayName('');
+    setSigningActive(false);
+    signingKeyRef.current = null;
+    setShowNameModal(true);
+  };
+
+  // The server refused a message: retry later or mark it failed
+  const handleNack = async (msgId: string, code: string, message: string, retryable: boolean) => {
+    const entry = await getOutboxEntry(msgId);
+    if (!entry) return;
+
+    if (retryable && entry.attempts < OUTBOX_MAX_ATTEMPTS) {
+      setTimeout(() => transmit(msgId), OUTBOX_RETRY_BASE_MS * 2 ** (entry.attempts - 1));
+      return;
+    }
+
+    await updateOutboxEntry(msgId, { status: 'failed', error: message });
+    setMessageStatus(msgId, 'failed', message);
+    if (code === 'name_taken') {
+      resetDisplayName(message);
+    }
+  };
+
   // Connect WebSocket
   useEffect(() => {
     if (!room || !cryptoKey || !displayName || showNameModal) return;
 
-    const connect = () => {
+    let closed = false;
+
+    const connect = async () => {
       setConnectionStatus('connecting');
-      const ws = new WebSocket(getWebSocketUrl(room.roomId));
+      let url: string;
+      try {
+        url = await getWebSocketUrl(room.roomId);
+      } catch (err) {
+        console.error('Failed to authenticate:', err);
+        setConnectionStatus('disconnected');
+        // Retrying won't help until this browser redeems an invite
+        if (err instanceof InviteRequiredError) {
+          setError(err.message);
+          return;
+        }
+        setTimeout(() => {
+          if (!closed) connect();
+        }, 2000);
+        return;
+      }
+      if (closed) return;
+
+      const ws = new WebSocket(url);
       wsRef.current = ws;
 
       ws.onopen = () => {
         setConnectionStatus('connected');
+        // Pick up anything stored while we were away, which also settles
+        // outbox entries whose ack was lost, and what changed among the messages
+        // we already show, then resend the rest. Without a last seq the first
+        // history load failed, so try it again instead.
+        const catchUp =
+          lastSeqRef.current === null
+            ? loadHistory(room.roomId, cryptoKey)
+            : backfill(room.roomId, cryptoKey).then(() => refreshLoaded(room.roomId, cryptoKey));
+        catchUp.then(() => flushOutbox(room.roomId));
+      };
+
+      // Track the sequence; a jump means we missed messages, so backfill
+      // from the last contiguous seq (which also picks up this one)
+      const trackSeq = (seq: number | undefined) => {
+        const lastSeq = lastSeqRef.current;
+        if (seq !== undefined && lastSeq !== null) {
+          if (seq > lastSeq + 1) {
+            backfill(room.roomId, cryptoKey);
+          } else if (seq > lastSeq) {
+            lastSeqRef.current = seq;
+          }
+        }
       };
 
       ws.onmessage = async (event) => {
@@ -351,23 +1086,72 @@ export default function Room() {
 
           if (data.type === 'error') {
             console.error('WebSocket error:', data.message);
-            if (data.code === 'name_taken') {
-              setError(data.message);
-              // Force name change — clear stored name and reopen modal
-              if (roomId) {
-                localStorage.removeItem(`displayName:${roomId}`);
-              }
-              setDisplayName('');
-              setSigningActive(false);
-              signingKeyRef.current = null;
-              setShowNameModal(true);
-            }
+            return;
+          }
+
+          if (data.type === 'ack') {
+            // Our message is stored; the server doesn't echo it back to us
+            const seq = data.seq as number;
+            trackSeq(seq);
+            await removeOutboxEntry(data.msgId);
+            setMessages((prev) => {
+              const existing = prev.find((m) => m.msgId === data.msgId);
+              if (!existing) return prev;
+              const sent = { ...existing, seq, createdAt: data.createdAt, status: 'sent' as const, failureReason: undefined };
+              appendCachedMessage(room.roomId, toCachedMessage(sent));
+              return mergeMessages(prev, [sent]);
+            });
+            return;
+          }
+
+          if (data.type === 'nack') {
+            console.error('Message not stored:', data.message);
+            await handleNack(data.msgId, data.code, data.message, data.retryable === true);
+            return;
+          }
+
+          if (data.type === 'group') {
+            handleGroupFrame(data as GroupFrame, room, cryptoKey);
+            return;
+          }
+
+          if (data.type === 'presence') {
+            const members = data.members as PresenceMember[];
+            const names = await Promise.all(
+              members.map((m) => decryptMemberName(m, room.roomId, cryptoKey))
+            );
+            setPresence(Object.fromEntries(members.map((m, i) => [m.keyFingerprint, names[i]])));
+            return;
+          }
+
+          if (data.type === 'join') {
+            const name = await decryptMemberName(data as PresenceMember, room.roomId, cryptoKey);
+            setPresence((prev) => ({ ...prev, [data.keyFingerprint]: name }));
+            return;
+          }
+
+          if (data.type === 'leave') {
+            const without = <T,>(prev: Record<string, T>) => {
+              const next = { ...prev };
+              delete next[data.keyFingerprint];
+              return next;
+            };
+            setPresence(without);
+            setTyping(without);
+            return;
+          }
+
+          if (data.type === 'typing') {
+            setTyping((prev) => ({ ...prev, [data.keyFingerprint]: Date.now() + TYPING_DISPLAY_MS }));
             return;
           }
 
           if (data.type === 'message') {
-            // Don't add if we already have this message
+            const seq = data.seq as number | undefined;
+            trackSeq(seq);
+
             setMessages((prev) => {
+              // Already picked up by a backfill
               if (prev.some((m) => m.msgId === data.msgId)) {
                 return prev;
               }
@@ -380,27 +1164,65 @@ export default function Room() {
                     return current;
                   }
                   // Cache the new message
-                  appendCachedMessage(room.roomId, {
-                    msgId: decrypted.msgId,
-                    displayName: decrypted.displayName,
-                    text: decrypted.text,
-                    clientTs: decrypted.clientTs,
-                    createdAt: decrypted.createdAt,
-                  });
-                  return [...current, decrypted];
+                  appendCachedMessage(room.roomId, toCachedMessage(decrypted));
+                  return mergeMessages(current, [decrypted]);
                 });
               });
 
               return prev;
             });
           }
+
+          // Disappearing messages that ran out, or messages a room admin removed
+          if (data.type === 'expired' || data.type === 'removed') {
+            removeMessages(room.roomId, data.msgIds as string[]);
+            return;
+          }
+
+          if (data.type === 'edit' || data.type === 'delete') {
+            const rev: HistoryRevision = { ...data, kind: data.type };
+            // Replayed along with the message if it becomes readable later
+            const undecryptable = undecryptableRef.current.get(data.msgId);
+            if (undecryptable) {
+              undecryptable.revisions = [...(undecryptable.revisions || []), rev];
+            }
+            setMessages((prev) => {
+              const target = prev.find((m) => m.msgId === data.msgId);
+              if (!target) {
+                return prev;
+              }
+
+              applyRevision(target, rev, room.roomId, cryptoKey).then((updated) => {
+                if (updated === target) return;
+                setMessages((current) =>
+                  current.map((m) => (m.msgId === updated.msgId ? updated : m))
+                );
+                // The whole message, so an edit drops the old recipe card and a delete its attachment keys
+                updateCachedMessage(room.roomId, updated.msgId, toCachedMessage(updated));
+              });
+
+              return prev;
+            });
+          }
         } catch (err) {
           console.error('Failed to process message:', err);
         }
       };
 
-      ws.onclose = () => {
+      ws.onclose = (event) => {
         setConnectionStatus('disconnected');
+        setPresence({});
+        setTyping({});
+        if (event.code === BANNED_CLOSE_CODE) {
+          wsRef.current = null;
+          setError('A room admin has banned your key from this recipe.');
+          return;
+        }
+        if (event.code === ROOM_DELETED_CLOSE_CODE) {
+          wsRef.current = null;
+          setError('This recipe has been deleted.');
+          return;
+        }
         // Reconnect after delay
         setTimeout(() => {
           if (wsRef.current === ws) {
@@ -417,6 +1239,11 @@ export default function Room() {
     connect();
 
     return () => {
+      closed = true;
+      if (rotationTimerRef.current) {
+        clearTimeout(rotationTimerRef.current);
+        rotationTimerRef.current = null;
+      }
       if (wsRef.current) {
         wsRef.current.close();
         wsRef.current = null;
@@ -424,21 +1251,275 @@ export default function Room() {
     };
   }, [room, cryptoKey, displayName, showNameModal]);
 
+  // Announce ourselves to the presence roster on every (re)connect
+  useEffect(() => {
+    if (connectionStatus !== 'connected' || !signingActive || !room || !cryptoKey) return;
+
+    const sendHello = async () => {
+      const signingKey = signingKeyRef.current;
+      const ws = wsRef.current;
+      if (!signingKey || !ws) return;
+
+      try {
+        const { ivB64, ciphertextB64 } = await encryptPresenceName(
+          cryptoKey,
+          room.roomId,
+          room.version,
+          signingKey.fingerprint,
+          displayName
+        );
+        if (ws.readyState !== WebSocket.OPEN) return;
+        ws.send(
+          JSON.stringify({
+            type: 'hello',
+            keyFingerprint: signingKey.fingerprint,
+            version: room.version,
+            nameIvB64: ivB64,
+            nameCiphertextB64: ciphertextB64,
+          })
+        );
+      } catch (err) {
+        console.error('Failed to announce presence:', err);
+      }
+    };
+
+    sendHello();
+  }, [connectionStatus, signingActive, room, cryptoKey, displayName]);
+
+  // In rooms with group keys, fetch the roster and our epoch keys on every (re)connect.
+  // The reply is handled like any other group frame.
+  useEffect(() => {
+    if (connectionStatus !== 'connected' || !signingActive || !room?.groupKeys) return;
+
+    const syncGroup = async () => {
+      const signingKey = signingKeyRef.current;
+      if (!signingKey) return;
+
+      try {
+        // Epoch keys were wrapped for one identity; a new name means starting over
+        if (groupIdentityRef.current?.fingerprint !== signingKey.fingerprint) {
+          const agreement = await loadAgreementKeypair(room.roomId, displayName);
+          groupIdentityRef.current = {
+            fingerprint: signingKey.fingerprint,
+            signingPrivateKey: signingKey.privateKey,
+            signingPublicKeyJwk: signingKey.publicKeyJwk,
+            agreementPrivateKey: agreement.privateKey,
+            agreementPublicKeyJwk: agreement.publicKeyJwk,
+          };
+          groupRef.current = null;
+          setGroupEpoch(null);
+        }
+
+        const ws = wsRef.current;
+        if (ws?.readyState !== WebSocket.OPEN) return;
+        ws.send(JSON.stringify({ type: 'group_sync', keyFingerprint: signingKey.fingerprint }));
+      } catch (err) {
+        console.error('Failed to sync group keys:', err);
+      }
+    };
+
+    syncGroup();
+  }, [connectionStatus, signingActive, room, displayName]);
+
+  // Drop typing indicators once they expire
+  useEffect(() => {
+    if (Object.keys(typing).length === 0) return;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      setTyping((prev) => {
+        const active = Object.entries(prev).filter(([, expiresAt]) => expiresAt > now);
+        return active.length === Object.keys(prev).length ? prev : Object.fromEntries(active);
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [typing]);
+
+  const handleInputChange = (value: string) => {
+    setMessageInput(value);
+
+    // Let others know we're typing, at most once per interval
+    const ws = wsRef.current;
+    const now = Date.now();
+    if (
+      value &&
+      ws?.readyState === WebSocket.OPEN &&
+      now - lastTypingSentRef.current > TYPING_SEND_INTERVAL_MS
+    ) {
+      lastTypingSentRef.current = now;
+      ws.send(JSON.stringify({ type: 'typing' }));
+    }
+  };
+
+  // Whether the current signing key authored this message (and may edit or delete it)
+  const canModify = (msg: DecryptedMessage): boolean => {
+    return (
+      signingActive &&
+      !msg.deleted &&
+      !msg.error &&
+      !isUnsent(msg) &&
+      !!msg.senderPublicKeyJwk &&
+      !!signingKeyRef.current &&
+      jwkEqual(msg.senderPublicKeyJwk, signingKeyRef.current.publicKeyJwk)
+    );
+  };
+
+  // Send a signed edit or delete tombstone for one of our own messages. Edits to a
+  // recipe card pass the new card, which is signed along with its summary text.
+  const sendRevision = async (
+    target: DecryptedMessage,
+    kind: RevisionPayload['kind'],
+    text: string,
+    recipe?: RecipeCard
+  ) => {
+    if (!room || !cryptoKey || !wsRef.current || !signingKeyRef.current) return;
+
+    const sending = sendingKey();
+    if (!sending) {
+      setComposerError(GROUP_KEY_WAITING);
+      return;
+    }
+
+    const revId = generateMsgId();
+    const clientTs = Date.now();
+
+    const payload: RevisionPayload = {
+      kind,
+      text,
+      recipe,
+      clientTs,
+      signatureB64: await signMessage(
+        signingKeyRef.current.privateKey,
+        text,
+        target.displayName,
+        clientTs,
+        revisionSigningId(kind, target.msgId, revId),
+        recipe ? { kind: 'recipe', recipe } : undefined
+      ),
+      senderPublicKeyJwk: signingKeyRef.current.publicKeyJwk,
+    };
+
+    try {
+      const { ivB64, ciphertextB64 } = await encryptRevision(
+        sending.key,
+        room.roomId,
+        room.version,
+        target.msgId,
+        revId,
+        payload,
+        sending.epoch
+      );
+
+      // The server broadcasts the revision back to us, which applies it locally
+      wsRef.current.send(
+        JSON.stringify({
+          type: kind,
+          revId,
+          msgId: target.msgId,
+          version: room.version,
+          epoch: sending.epoch,
+          ivB64,
+          ciphertextB64,
+        })
+      );
+    } catch (err) {
+      console.error(`Failed to send ${kind}:`, err);
+    }
+  };
+
+  const startEditing = (msg: DecryptedMessage) => {
+    if (msg.recipe) {
+      setShowRecipeComposer(false);
+      setEditingRecipe(msg);
+      return;
+    }
+    setEditingMsgId(msg.msgId);
+    setMessageInput(msg.text);
+  };
+
+  const cancelEditing = () => {
+    setEditingMsgId(null);
+    setMessageInput('');
+  };
+
+  const handleDelete = async (msg: DecryptedMessage) => {
+    setDeleteConfirm(null);
+    await sendRevision(msg, 'delete', '');
+  };
+
   // Send message
   const sendMessage = async (e: FormEvent) => {
     e.preventDefault();
 
-    const text = messageInput.trim();
-    if (!text || !room || !cryptoKey || !wsRef.current) return;
+    if (editingMsgId) {
+      const target = messages.find((m) => m.msgId === editingMsgId);
+      const text = messageInput.trim();
+      if (target && text && text !== target.text) {
+        await sendRevision(target, 'edit', text);
+      }
+      cancelEditing();
+      return;
+    }
 
-    const msgId = generateMsgId();
-    const clientTs = Date.now();
+    const text = messageInput.trim();
+    if (!text && pendingImages.length === 0) return;
+    if (await postMessage({ text, displayName, clientTs: Date.now() })) {
+      setMessageInput('');
+    }
+  };
 
+  // Share a recipe card; its plain summary rides along as the text
+  const sendRecipe = async (recipe: RecipeCard) => {
     const payload: MessagePayload = {
-      text,
+      kind: 'recipe',
+      text: recipeSummary(recipe),
+      recipe,
       displayName,
-      clientTs,
+      clientTs: Date.now(),
     };
+    if (await postMessage(payload)) {
+      setShowRecipeComposer(false);
+    }
+  };
+
+  const saveRecipeEdit = async (recipe: RecipeCard) => {
+    if (editingRecipe) {
+      await sendRevision(editingRecipe, 'edit', recipeSummary(recipe), recipe);
+    }
+    setEditingRecipe(null);
+  };
+
+  // Sign, encrypt and queue a new message of any kind in the outbox, sending it
+  // right away when connected. Returns whether it was queued.
+  const postMessage = async (payload: MessagePayload): Promise<boolean> => {
+    if (!room || !cryptoKey) return false;
+
+    const sending = sendingKey();
+    if (!sending) {
+      setComposerError(GROUP_KEY_WAITING);
+      return false;
+    }
+
+    const msgId = generateMsgId();
+    const { text, clientTs } = payload;
+
+    // Upload picked photos first; their keys travel inside the encrypted payload
+    if (pendingImages.length > 0) {
+      setUploading(true);
+      setComposerError('');
+      try {
+        payload.attachments = await Promise.all(
+          pendingImages.map((file) => uploadImageAttachment(room.roomId, file))
+        );
+      } catch (err) {
+        console.error('Failed to upload attachment:', err);
+        setComposerError(err instanceof Error ? err.message : 'Failed to upload photo');
+        return false;
+      } finally {
+        setUploading(false);
+      }
+    }
 
     // Sign the message if we have a signing key
     if (signingKeyRef.current) {
@@ -447,65 +1528,99 @@ export default function Room() {
         text,
         displayName,
         clientTs,
-        msgId
+        msgId,
+        signedContentOf(payload)
       );
       payload.senderPublicKeyJwk = signingKeyRef.current.publicKeyJwk;
+      payload.identityPublicKeyJwk = signingKeyRef.current.identityPublicKeyJwk;
+      payload.identityCertB64 = signingKeyRef.current.identityCertB64;
     }
 
     try {
       const { ivB64, ciphertextB64 } = await encryptPayload(
-        cryptoKey,
+        sending.key,
         room.roomId,
         room.version,
         msgId,
-        payload
+        payload,
+        sending.epoch
       );
 
-      // Send via WebSocket (include senderName + keyFingerprint for server-side name claim)
-      wsRef.current.send(
-        JSON.stringify({
-          type: 'message',
-          msgId,
-          version: room.version,
-          ivB64,
-          ciphertextB64,
-          clientTs,
-          senderName: displayName,
-          keyFingerprint: signingKeyRef.current?.fingerprint,
-        })
-      );
+      // Name claims only ever see a keyed hash of the name, never the name itself
+      const senderNameHash = nameKeyRef.current
+        ? await hashDisplayName(nameKeyRef.current, room.roomId, displayName)
+        : undefined;
 
-      const createdAt = new Date().toISOString();
+      const expiresAt = messageTtl > 0 ? new Date(clientTs + messageTtl).toISOString() : undefined;
 
-      // Optimistically add to local messages
-      setMessages((prev) => [
-        ...prev,
-        {
+      // The frame includes the name hash + keyFingerprint for the server-side name claim
+      const frame = JSON.stringify({
+        type: 'message',
+        msgId,
+        version: room.version,
+        epoch: sending.epoch,
+        ivB64,
+        ciphertextB64,
+        clientTs,
+        senderNameHash,
+        keyFingerprint: signingKeyRef.current?.fingerprint,
+        expiresAt,
+        // Lets the server delete the photos along with the message
+        attachmentIds: payload.attachments?.map((attachment) => attachment.attachmentId),
+      });
+
+      // Persist before sending so the message survives a reload until it is acked
+      const entry: OutboxEntry = {
+        msgId,
+        roomId: room.roomId,
+        frame,
+        message: {
           msgId,
           displayName,
           text,
+          recipe: payload.kind === 'recipe' ? payload.recipe : undefined,
+          attachments: payload.attachments,
           clientTs,
-          createdAt,
-          isOwn: true,
-          trustStatus: signingKeyRef.current ? 'verified' : 'unsigned',
+          createdAt: new Date().toISOString(),
+          expiresAt,
         },
-      ]);
+        senderPublicKeyJwk: signingKeyRef.current?.publicKeyJwk,
+        status: 'pending',
+        attempts: 0,
+      };
+      await putOutboxEntry(entry);
 
-      // Cache sent message
-      appendCachedMessage(room.roomId, {
-        msgId,
-        displayName,
-        text,
-        clientTs,
-        createdAt,
-      });
+      // Optimistically add to local messages; it is cached once the server acks it
+      setMessages((prev) => [...prev, fromOutboxEntry(entry)]);
+      transmit(msgId);
 
-      setMessageInput('');
+      setPendingImages([]);
+      return true;
     } catch (err) {
       console.error('Failed to send message:', err);
+      return false;
     }
   };
 
+  // Manually resend a failed message, with a fresh round of attempts
+  const retryMessage = async (msgId: string) => {
+    const entry = await updateOutboxEntry(msgId, { status: 'pending', attempts: 0, error: undefined });
+    if (!entry) return;
+    setMessageStatus(msgId, 'pending');
+    transmit(msgId);
+  };
+
+  const discardMessage = async (msgId: string) => {
+    await removeOutboxEntry(msgId);
+    setMessages((prev) => prev.filter((m) => m.msgId !== msgId));
+  };
+
+  const handleFilesPicked = (files: FileList | null) => {
+    const images = Array.from(files || []).filter((file) => file.type.startsWith('image/'));
+    setPendingImages((prev) => [...prev, ...images].slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
   // Set display name
   const handleSetDisplayName = (e: FormEvent) => {
     e.preventDefault();
@@ -523,11 +1638,30 @@ export default function Room() {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Roster and typing state for everyone but ourselves
+  const ownFingerprint = signingKeyRef.current?.fingerprint;
+  const onlineNames = Object.entries(presence)
+    .filter(([fingerprint]) => fingerprint !== ownFingerprint)
+    .map(([, name]) => name);
+  const typingNames = Object.keys(typing)
+    .filter((fingerprint) => fingerprint !== ownFingerprint)
+    .map((fingerprint) => presence[fingerprint] || 'Someone');
+
   if (loading) {
     return (
       <div className="home">
         <div className="home-content">
-          <p>Opening recipe...</p>
+          {unlocking ? (
+            <div className="unlock-progress">
+              <progress />
+              <p>
+                Unlocking keys…
+                {unlocking.total > 1 && ` ${unlocking.done} of ${unlocking.total}`}
+              </p>
+            </div>
+          ) : (
+            <p>Opening recipe...</p>
+          )}
         </div>
       </div>
     );
@@ -578,8 +1712,17 @@ export default function Room() {
             &larr;
           </Link>
           <div>
-            <div className="room-title">{room?.title || 'Untitled Recipe'}</div>
+            <div className="room-title">{roomTitle || 'Untitled Recipe'}</div>
             <div className="room-code">{roomId}</div>
+            {connectionStatus === 'connected' && (
+              <div className="room-presence" title={onlineNames.join(', ')}>
+                {typingNames.length > 0
+                  ? <span className="room-typing">{formatTyping(typingNames)}</span>
+                  : onlineNames.length > 0
+                  ? `Here now: ${onlineNames.join(', ')}`
+                  : 'Just you here'}
+              </div>
+            )}
           </div>
           <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '0.2rem', marginLeft: 'auto' }}>
             <span
@@ -600,25 +1743,92 @@ export default function Room() {
                 signed
               </span>
             )}
+            {room?.groupKeys && (
+              <span
+                className={`group-key-status${groupEpoch === null ? ' pending' : ''}`}
+                title="Messages are encrypted under a key shared only with current members"
+              >
+                {groupEpoch === null ? 'group key pending' : `group key #${groupEpoch}`}
+              </span>
+            )}
           </div>
         </div>
       </div>
 
       {/* Messages */}
-      <div className="messages-container">
+      <div className="messages-container" ref={messagesContainerRef} onScroll={handleMessagesScroll}>
+        {loadingOlder && <div className="messages-loader">Loading older messages...</div>}
+        {!hasOlder && !loadingOlder && room && messages.length > 0 && (
+          <div className="messages-loader">Beginning of this recipe</div>
+        )}
         {messages.map((msg) => (
           <div
             key={msg.msgId}
-            className={`message ${msg.isOwn ? 'own' : ''}`}
+            className={`message ${msg.isOwn ? 'own' : ''} ${msg.status === 'failed' ? 'failed' : ''}`}
           >
             <div className="message-sender">
               {!msg.isOwn && msg.displayName}
               <TrustIndicator status={msg.trustStatus} />
             </div>
-            <div className={`message-text ${msg.error ? 'message-error' : ''}`}>
-              {msg.text}
+            {msg.deleted ? (
+              <div className="message-text message-deleted">Message deleted</div>
+            ) : msg.recipe ? (
+              <RecipeCardView recipe={msg.recipe} />
+            ) : (
+              (msg.text || !msg.attachments) && (
+                <div className={`message-text ${msg.error ? 'message-error' : ''}`}>
+                  {msg.text}
+                </div>
+              )
+            )}
+            {!msg.deleted && room && msg.attachments?.map((attachment) => (
+              <AttachmentImage key={attachment.attachmentId} roomId={room.roomId} attachment={attachment} />
+            ))}
+            <div className="message-time" title={`Message ID ${msg.msgId}`}>
+              {msg.edited && !msg.deleted && <span className="message-edited">edited</span>}
+              {msg.expiresAt && (
+                <span className="message-edited" title={`Disappears ${new Date(msg.expiresAt).toLocaleString()}`}>
+                  disappearing
+                </span>
+              )}
+              {formatTime(msg.createdAt)}
+              {msg.status === 'pending' && <span className="message-status">sending...</span>}
+              {msg.status === 'sent' && <span className="message-status">sent</span>}
             </div>
-            <div className="message-time">{formatTime(msg.createdAt)}</div>
+            {msg.status === 'failed' && (
+              <div className="message-actions message-failed">
+                <span className="message-failed-reason">Not sent: {msg.failureReason || 'unknown error'}</span>
+                <button className="link-button" onClick={() => retryMessage(msg.msgId)}>
+                  Retry
+                </button>
+                <button className="link-button" onClick={() => discardMessage(msg.msgId)}>
+                  Discard
+                </button>
+              </div>
+            )}
+            {canModify(msg) && (
+              <div className="message-actions">
+                {deleteConfirm === msg.msgId ? (
+                  <>
+                    <button className="link-button danger-text" onClick={() => handleDelete(msg)}>
+                      Confirm delete
+                    </button>
+                    <button className="link-button" onClick={() => setDeleteConfirm(null)}>
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button className="link-button" onClick={() => startEditing(msg)}>
+                      Edit
+                    </button>
+                    <button className="link-button" onClick={() => setDeleteConfirm(msg.msgId)}>
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
           </div>
         ))}
         <div ref={messagesEndRef} />
@@ -626,19 +1836,114 @@ export default function Room() {
 
       {/* Message input */}
       <div className="message-input-container">
+        {showRecipeComposer && (
+          <RecipeComposer
+            disabled={uploading}
+            onSubmit={sendRecipe}
+            onCancel={() => setShowRecipeComposer(false)}
+          />
+        )}
+        {editingRecipe?.recipe && (
+          <RecipeComposer
+            key={editingRecipe.msgId}
+            initial={editingRecipe.recipe}
+            disabled={connectionStatus !== 'connected'}
+            onSubmit={saveRecipeEdit}
+            onCancel={() => setEditingRecipe(null)}
+          />
+        )}
+        {composerError && <div className="error-message composer-error">{composerError}</div>}
+        {room?.groupKeys && groupEpoch === null && connectionStatus === 'connected' && !composerError && (
+          <div className="group-key-notice">{GROUP_KEY_WAITING}</div>
+        )}
+        {pendingImages.length > 0 && !editingMsgId && (
+          <div className="pending-attachments">
+            {pendingImages.map((file, i) => (
+              <span key={i} className="pending-attachment">
+                {file.name}
+                <button
+                  type="button"
+                  className="link-button"
+                  onClick={() => setPendingImages((prev) => prev.filter((_, j) => j !== i))}
+                  title="Remove photo"
+                >
+                  &times;
+                </button>
+              </span>
+            ))}
+            {uploading && <span>Encrypting and uploading...</span>}
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          hidden
+          onChange={(e) => handleFilesPicked(e.target.files)}
+        />
         <form className="message-input-form" onSubmit={sendMessage}>
           <input
             type="text"
             value={messageInput}
-            onChange={(e) => setMessageInput(e.target.value)}
-            placeholder="Type a message..."
-            disabled={connectionStatus !== 'connected'}
+            onChange={(e) => handleInputChange(e.target.value)}
+            placeholder={editingMsgId ? 'Edit message...' : 'Type a message...'}
+            disabled={!!editingMsgId && connectionStatus !== 'connected'}
           />
+          {editingMsgId ? (
+            <button type="button" className="secondary" onClick={cancelEditing}>
+              Cancel
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => {
+                setEditingRecipe(null);
+                setShowRecipeComposer((open) => !open);
+              }}
+              title="Share a recipe card"
+            >
+              Recipe
+            </button>
+          )}
+          {!editingMsgId && (
+            <select
+              className="message-ttl"
+              value={messageTtl}
+              onChange={(e) => setMessageTtl(Number(e.target.value))}
+              title="Make the next messages disappear after a while"
+              aria-label="Disappear after"
+            >
+              {DISAPPEAR_OPTIONS.map((option) => (
+                <option key={option.ms} value={option.ms}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {/* Uploads need a membership session, which rooms without an auth key don't have */}
+          {!editingMsgId && room?.authRequired && (
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={pendingImages.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+              title="Attach a photo"
+            >
+              Photo
+            </button>
+          )}
           <button
             type="submit"
-            disabled={!messageInput.trim() || connectionStatus !== 'connected'}
+            disabled={
+              (!messageInput.trim() && (pendingImages.length === 0 || !!editingMsgId)) ||
+              uploading ||
+              // New messages queue in the outbox while offline; edits need the connection
+              (!!editingMsgId && connectionStatus !== 'connected')
+            }
           >
-            Send
+            {editingMsgId ? 'Save' : 'Send'}
           </button>
         </form>
       </div>
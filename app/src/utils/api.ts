@@ -1,24 +1,125 @@
+import type { KdfAlg } from './crypto';
+
 const API_BASE = import.meta.env.VITE_API_BASE_URL || '';
 
+// Encrypted fixed label used to check a passphrase before storing it
+export interface KeyCheck {
+  ivB64: string;
+  ciphertextB64: string;
+}
+
+// Salt and KDF params of one key version (one per passphrase rotation)
+export interface RoomKeyVersion {
+  version: number;
+  saltB64: string;
+  // Missing from servers that predate Argon2id, meaning PBKDF2
+  kdfAlg?: KdfAlg;
+  kdfIters: number;
+  kdfMemoryKiB?: number | null;
+  kdfParallelism?: number | null;
+  keyCheck?: KeyCheck | null;
+}
+
+// Room metadata encrypted under the key of `version` (see encryptRoomMetadata)
+export interface EncryptedRoomMeta {
+  version: number;
+  ivB64: string;
+  ciphertextB64: string;
+}
+
+// How long the server keeps a room's messages: forever, `value` days, or the newest `value` messages
+export interface RetentionPolicy {
+  mode: 'forever' | 'days' | 'count';
+  value: number | null;
+}
+
 export interface RoomInfo {
   roomId: string;
+  // Plaintext title of rooms created before metadata was encrypted
   title: string | null;
+  meta?: EncryptedRoomMeta | null;
   saltB64: string;
+  kdfAlg?: KdfAlg;
   kdfIters: number;
+  kdfMemoryKiB?: number | null;
+  kdfParallelism?: number | null;
   version: number;
+  // Key check for the current version (null for rooms created before key checks,
+  // and for versions with an auth key, whose passphrase is checked by challenge)
+  keyCheck?: KeyCheck | null;
+  // All key versions the server still knows, oldest first (only on GET /api/rooms/:roomId)
+  keys?: RoomKeyVersion[];
+  // History and WebSocket access need a membership proof for the current version
+  authRequired?: boolean;
+  // Newcomers need an invite link as well as the passphrase (only on GET /api/rooms/:roomId)
+  inviteOnly?: boolean;
+  retention?: RetentionPolicy;
+  // New messages are encrypted under member-agreed epoch keys (see groupKeys.ts)
+  groupKeys?: boolean;
+}
+
+export interface HistoryRevision {
+  revId: string;
+  kind: 'edit' | 'delete';
+  version: number;
+  // Group key epoch the revision is encrypted under; null for the passphrase key
+  epoch?: number | null;
+  createdAt: string;
+  ivB64: string;
+  ciphertextB64: string;
 }
 
 export interface HistoryMessage {
   msgId: string;
+  // Per-room sequence number assigned by the server, increasing with each stored message
+  seq: number;
   version: number;
+  // Group key epoch the message is encrypted under; null for the passphrase key
+  epoch?: number | null;
   createdAt: string;
   ivB64: string;
   ciphertextB64: string;
-  senderName: string | null;
+  // When the sender asked for the message to disappear (ISO time), if they did
+  expiresAt?: string | null;
+  // Edits and delete tombstones, oldest first (absent on live broadcast frames)
+  revisions?: HistoryRevision[];
+}
+
+// Ephemeral presence roster entry relayed by the room (display name stays encrypted)
+export interface PresenceMember {
+  keyFingerprint: string;
+  version: number;
+  nameIvB64: string;
+  nameCiphertextB64: string;
+}
+
+// Member card as relayed by the room, sealed under the passphrase key of `version`
+export interface SealedMemberCard {
+  keyFingerprint: string;
+  version: number;
+  ivB64: string;
+  ciphertextB64: string;
+  // Banned members stay listed so envelopes they signed can still be checked
+  removed?: boolean;
+}
+
+// Group key roster and epochs, sent on sync and after every change. `envelopes`
+// holds our wrapped epoch keys: all the server still keeps on sync, the latest one on a push.
+export interface GroupFrame {
+  type: 'group';
+  members: SealedMemberCard[];
+  epoch: number;
+  epochMembers: string[];
+  envelopes: { epoch: number; envelope: string }[];
+  // No one connected holds the latest epoch key, so any member may start the next
+  stranded?: boolean;
+  // Challenge this socket signs to prove our member key
+  challenge?: string;
 }
 
 function adminApiError(status: number, fallback: string): Error {
   if (status === 401) return new Error('Invalid admin token');
+  if (status === 403) return new Error('This admin token is not allowed to do that');
   if (status === 404) return new Error('Recipe not found');
   if (status === 409) return new Error('A recipe with that name already exists');
   if (status === 405) {
@@ -34,13 +135,15 @@ const roomCache = new Map<string, { data: RoomInfo; ts: number }>();
 const ROOM_CACHE_TTL = 60_000; // 1 minute
 
 // Public endpoints
-export async function getRoom(roomId: string): Promise<RoomInfo> {
+export async function getRoom(roomId: string, options?: { fresh?: boolean }): Promise<RoomInfo> {
   const cached = roomCache.get(roomId);
-  if (cached && Date.now() - cached.ts < ROOM_CACHE_TTL) {
+  if (!options?.fresh && cached && Date.now() - cached.ts < ROOM_CACHE_TTL) {
     return cached.data;
   }
 
-  const res = await fetch(`${API_BASE}/api/rooms/${encodeURIComponent(roomId)}`);
+  const res = await fetch(`${API_BASE}/api/rooms/${encodeURIComponent(roomId)}`, {
+    cache: options?.fresh ? 'no-cache' : 'default',
+  });
   if (!res.ok) {
     throw new Error(res.status === 404 ? 'Recipe not found' : 'Failed to fetch recipe');
   }
@@ -49,37 +152,216 @@ export async function getRoom(roomId: string): Promise<RoomInfo> {
   return data;
 }
 
+// Membership sessions. A room registers a prover that answers the server's
+// challenge; session tokens are opened on demand and reused until they expire.
+// Rooms with invites also want the member pass this browser got when it joined.
+type RoomAuthProver = (version: number, nonce: string) => Promise<string>;
+
+export interface RoomMembership {
+  memberPass?: string;
+  // Called when the server hands out a pass with a session
+  onMemberPass: (memberPass: string) => void;
+}
+
+const roomAuth = new Map<
+  string,
+  { prove: RoomAuthProver; membership?: RoomMembership; session?: { token: string; expiresAt: number } }
+>();
+const SESSION_EXPIRY_MARGIN = 60_000; // renew a minute before the server would
+
+// The room has invites and this browser never redeemed one
+export class InviteRequiredError extends Error {
+  constructor() {
+    super('This recipe only lets new members in through an invite link. Ask a member for one.');
+    this.name = 'InviteRequiredError';
+  }
+}
+
+export function setRoomAuth(roomId: string, prove: RoomAuthProver | null, membership?: RoomMembership): void {
+  if (prove) {
+    roomAuth.set(roomId, { prove, membership });
+  } else {
+    roomAuth.delete(roomId);
+  }
+}
+
+// Fetch a one-time challenge and send back the proof for it
+async function answerRoomChallenge(roomId: string, prove: RoomAuthProver, memberPass?: string): Promise<Response> {
+  const base = `${API_BASE}/api/rooms/${encodeURIComponent(roomId)}/auth`;
+  const challengeRes = await fetch(`${base}/challenge`, { method: 'POST' });
+  if (!challengeRes.ok) {
+    throw new Error('Failed to authenticate');
+  }
+  const { nonce, version }: { nonce: string; version: number } = await challengeRes.json();
+
+  return fetch(base, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ nonce, proofB64: await prove(version, nonce), memberPass }),
+  });
+}
+
+async function openRoomSession(
+  roomId: string,
+  prove: RoomAuthProver,
+  membership?: RoomMembership
+): Promise<{ token: string; expiresAt: number }> {
+  const res = await answerRoomChallenge(roomId, prove, membership?.memberPass);
+  if (res.status === 403) {
+    throw new InviteRequiredError();
+  }
+  if (!res.ok) {
+    throw new Error(res.status === 401 ? 'Passphrase is no longer valid for this recipe' : 'Failed to authenticate');
+  }
+  const session: { token: string; expiresAt: number; memberPass?: string } = await res.json();
+  if (session.memberPass && membership) {
+    membership.memberPass = session.memberPass;
+    membership.onMemberPass(session.memberPass);
+  }
+  return { token: session.token, expiresAt: session.expiresAt };
+}
+
+// Session token for a room, or null if the room has no prover registered
+async function getRoomSessionToken(roomId: string, options?: { renew?: boolean }): Promise<string | null> {
+  const auth = roomAuth.get(roomId);
+  if (!auth) return null;
+
+  if (options?.renew || !auth.session || auth.session.expiresAt - SESSION_EXPIRY_MARGIN <= Date.now()) {
+    auth.session = await openRoomSession(roomId, auth.prove, auth.membership);
+  }
+  return auth.session.token;
+}
+
+// Check a passphrase's proof against the server, for rooms that don't hand out
+// key checks. A refusal for a missing invite still means the proof was right.
+// Returns false for a wrong passphrase, and the member pass the server gave out
+// with the session, if any.
+export async function checkRoomProof(
+  roomId: string,
+  prove: RoomAuthProver,
+  memberPass?: string
+): Promise<{ memberPass?: string } | false> {
+  const res = await answerRoomChallenge(roomId, prove, memberPass);
+  if (res.status === 401) return false;
+  if (res.status === 403) return {};
+  if (!res.ok) {
+    throw new Error('Failed to authenticate');
+  }
+  const session: { memberPass?: string } = await res.json();
+  return { memberPass: session.memberPass };
+}
+
+// Fetch with the room's session token attached, if the room needs one
+async function fetchWithRoomSession(roomId: string, url: string, init?: RequestInit): Promise<Response> {
+  const fetchWithToken = async (token: string | null) =>
+    fetch(url, {
+      ...init,
+      headers: { ...(init?.headers as Record<string, string>), ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    });
+
+  const res = await fetchWithToken(await getRoomSessionToken(roomId));
+  // The server may have ended the session early, so retry once with a fresh one
+  if (res.status === 401 && roomAuth.has(roomId)) {
+    return fetchWithToken(await getRoomSessionToken(roomId, { renew: true }));
+  }
+  return res;
+}
+
+// Messages for invite links that can no longer be used, by the server's reason
+const INVITE_GONE_MESSAGES: Record<string, string> = {
+  expired: 'This invite link has expired. Ask for a new one.',
+  used_up: 'This invite link has already been used. Ask for a new one.',
+  revoked: 'This invite link was revoked. Ask for a new one.',
+};
+
+// Use up one redemption of an invite link before joining with its passphrase, in
+// exchange for a member pass
+export async function redeemInvite(roomId: string, token: string): Promise<{ memberPass: string }> {
+  const res = await fetch(`${API_BASE}/api/rooms/${encodeURIComponent(roomId)}/invites/redeem`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+  if (res.status === 410) {
+    const data = await res.json().catch(() => null) as { reason?: string } | null;
+    throw new Error(INVITE_GONE_MESSAGES[data?.reason || ''] || INVITE_GONE_MESSAGES.expired);
+  }
+  if (!res.ok) {
+    throw new Error(res.status === 404 ? "This invite link isn't valid." : 'Failed to check the invite link');
+  }
+  return res.json();
+}
+
 export async function getHistory(
   roomId: string,
-  options?: { limit?: number; before?: string; version?: number }
+  options?: { limit?: number; before?: string; beforeSeq?: number; afterSeq?: number; version?: number }
 ): Promise<{ messages: HistoryMessage[] }> {
   const params = new URLSearchParams();
   if (options?.limit) params.set('limit', options.limit.toString());
   if (options?.before) params.set('before', options.before);
+  if (options?.beforeSeq !== undefined) params.set('beforeSeq', options.beforeSeq.toString());
+  if (options?.afterSeq !== undefined) params.set('afterSeq', options.afterSeq.toString());
   if (options?.version) params.set('version', options.version.toString());
 
   const url = `${API_BASE}/api/rooms/${encodeURIComponent(roomId)}/history${
     params.toString() ? '?' + params.toString() : ''
   }`;
-  const res = await fetch(url);
+  const res = await fetchWithRoomSession(roomId, url);
   if (!res.ok) {
     throw new Error('Failed to fetch history');
   }
   return res.json();
 }
 
-export function getWebSocketUrl(roomId: string): string {
+export async function uploadAttachment(roomId: string, ciphertext: ArrayBuffer): Promise<{ attachmentId: string }> {
+  const res = await fetchWithRoomSession(roomId, `${API_BASE}/api/rooms/${encodeURIComponent(roomId)}/attachments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: ciphertext,
+  });
+  if (!res.ok) {
+    throw new Error(res.status === 413 ? 'That file is too large' : 'Failed to upload attachment');
+  }
+  return res.json();
+}
+
+export async function downloadAttachment(roomId: string, attachmentId: string): Promise<ArrayBuffer> {
+  const res = await fetchWithRoomSession(
+    roomId,
+    `${API_BASE}/api/rooms/${encodeURIComponent(roomId)}/attachments/${encodeURIComponent(attachmentId)}`
+  );
+  if (!res.ok) {
+    throw new Error('Failed to fetch attachment');
+  }
+  return res.arrayBuffer();
+}
+
+// Browsers can't set headers on WebSocket upgrades, so the session token rides in the query
+export async function getWebSocketUrl(roomId: string): Promise<string> {
   const base = API_BASE || window.location.origin;
   const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
   const wsBase = base.replace(/^http(s)?:/, wsProtocol);
-  return `${wsBase}/api/rooms/${encodeURIComponent(roomId)}/ws`;
+  const token = await getRoomSessionToken(roomId);
+  const query = token ? `?token=${encodeURIComponent(token)}` : '';
+  return `${wsBase}/api/rooms/${encodeURIComponent(roomId)}/ws${query}`;
 }
 
 // Admin endpoints
 export async function createRoom(
   adminToken: string,
-  options?: { title?: string; slug?: string; kdfIters?: number }
-): Promise<RoomInfo> {
+  options?: {
+    title?: string;
+    slug?: string;
+    kdfAlg?: KdfAlg;
+    kdfIters?: number;
+    kdfMemoryKiB?: number | null;
+    kdfParallelism?: number | null;
+    saltB64?: string;
+    keyCheck?: KeyCheck;
+    authKeyB64?: string;
+    meta?: EncryptedRoomMeta;
+  }
+): Promise<RoomInfo & { memberPass: string }> {
   const res = await fetch(`${API_BASE}/api/admin/rooms`, {
     method: 'POST',
     headers: {
@@ -97,7 +379,16 @@ export async function createRoom(
 export async function rotatePassphrase(
   adminToken: string,
   roomId: string,
-  options?: { kdfIters?: number }
+  options?: {
+    kdfAlg?: KdfAlg;
+    kdfIters?: number;
+    kdfMemoryKiB?: number | null;
+    kdfParallelism?: number | null;
+    saltB64?: string;
+    keyCheck?: KeyCheck;
+    authKeyB64?: string;
+    meta?: EncryptedRoomMeta;
+  }
 ): Promise<RoomInfo> {
   const res = await fetch(`${API_BASE}/api/admin/rooms/${encodeURIComponent(roomId)}/rotate`, {
     method: 'POST',
@@ -116,7 +407,7 @@ export async function rotatePassphrase(
 export async function updateRoom(
   adminToken: string,
   roomId: string,
-  updates: { title?: string }
+  updates: { title?: string; meta?: EncryptedRoomMeta; retention?: RetentionPolicy; groupKeys?: boolean }
 ): Promise<{ success: boolean }> {
   const res = await fetch(`${API_BASE}/api/admin/rooms/${encodeURIComponent(roomId)}`, {
     method: 'PATCH',
@@ -126,6 +417,9 @@ export async function updateRoom(
     },
     body: JSON.stringify(updates),
   });
+  if (res.status === 409) {
+    throw new Error('The passphrase was changed since this page loaded. Reload and try again.');
+  }
   if (!res.ok) {
     throw adminApiError(res.status, 'Failed to update recipe');
   }
@@ -135,7 +429,10 @@ export async function updateRoom(
 export interface AdminRoom {
   roomId: string;
   title: string | null;
+  meta: EncryptedRoomMeta | null;
   version: number;
+  retention: RetentionPolicy;
+  groupKeys: boolean;
   createdAt: string;
   messageCount: number;
 }
@@ -154,6 +451,231 @@ export async function listRooms(
   return res.json();
 }
 
+// What the admin token in use may do: everything, or manage one room as its owner
+export type AdminSession =
+  | { scope: 'global' }
+  | { scope: 'room'; roomId: string; expiresAt: number | null };
+
+export async function getAdminSession(adminToken: string): Promise<AdminSession> {
+  const res = await fetch(`${API_BASE}/api/admin/session`, {
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+    },
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to check admin token');
+  }
+  return res.json();
+}
+
+export interface OwnerToken {
+  tokenId: string;
+  roomId: string;
+  label: string | null;
+  createdAt: string;
+  expiresAt: number | null;
+  revokedAt: string | null;
+}
+
+// Mint a room-scoped owner token; the secret token is only returned this once
+export async function createOwnerToken(
+  adminToken: string,
+  roomId: string,
+  options: { label?: string; ttlMs?: number }
+): Promise<OwnerToken & { token: string }> {
+  const res = await fetch(`${API_BASE}/api/admin/rooms/${encodeURIComponent(roomId)}/tokens`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${adminToken}`,
+    },
+    body: JSON.stringify(options),
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to create owner token');
+  }
+  return res.json();
+}
+
+export async function listOwnerTokens(
+  adminToken: string,
+  roomId: string
+): Promise<{ tokens: OwnerToken[] }> {
+  const res = await fetch(`${API_BASE}/api/admin/rooms/${encodeURIComponent(roomId)}/tokens`, {
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+    },
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to list owner tokens');
+  }
+  return res.json();
+}
+
+export async function revokeOwnerToken(
+  adminToken: string,
+  tokenId: string
+): Promise<{ success: boolean }> {
+  const res = await fetch(`${API_BASE}/api/admin/tokens/${encodeURIComponent(tokenId)}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+    },
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to revoke owner token');
+  }
+  return res.json();
+}
+
+export interface Invite {
+  inviteId: string;
+  roomId: string;
+  label: string | null;
+  createdAt: string;
+  expiresAt: number | null;
+  maxUses: number | null;
+  uses: number;
+  revokedAt: string | null;
+}
+
+// Issue an invite token for join links; the token is only returned this once
+export async function createInvite(
+  adminToken: string,
+  roomId: string,
+  options: { label?: string; ttlMs?: number; maxUses?: number }
+): Promise<Invite & { token: string }> {
+  const res = await fetch(`${API_BASE}/api/admin/rooms/${encodeURIComponent(roomId)}/invites`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${adminToken}`,
+    },
+    body: JSON.stringify(options),
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to create invite');
+  }
+  return res.json();
+}
+
+export async function listInvites(adminToken: string, roomId: string): Promise<{ invites: Invite[] }> {
+  const res = await fetch(`${API_BASE}/api/admin/rooms/${encodeURIComponent(roomId)}/invites`, {
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+    },
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to list invites');
+  }
+  return res.json();
+}
+
+export async function revokeInvite(adminToken: string, inviteId: string): Promise<{ success: boolean }> {
+  const res = await fetch(`${API_BASE}/api/admin/invites/${encodeURIComponent(inviteId)}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+    },
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to revoke invite');
+  }
+  return res.json();
+}
+
+export interface BannedKey {
+  keyFingerprint: string;
+  reason: string | null;
+  bannedAt: string;
+}
+
+export interface NameClaim {
+  nameHash: string;
+  keyFingerprint: string;
+  claimedAt: string;
+}
+
+async function moderationRequest(
+  adminToken: string,
+  roomId: string,
+  path: string,
+  init: { method: string; body?: unknown },
+  fallback: string
+): Promise<Response> {
+  const res = await fetch(`${API_BASE}/api/admin/rooms/${encodeURIComponent(roomId)}/${path}`, {
+    method: init.method,
+    headers: {
+      ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+      Authorization: `Bearer ${adminToken}`,
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+  if (res.status === 404 || res.status === 400) {
+    // The message, ban or claim wasn't found, or the input was malformed; the server says which
+    const data = await res.json().catch(() => null) as { error?: string } | null;
+    throw new Error(data?.error || fallback);
+  }
+  if (!res.ok) {
+    throw adminApiError(res.status, fallback);
+  }
+  return res;
+}
+
+export async function getModeration(
+  adminToken: string,
+  roomId: string
+): Promise<{ bans: BannedKey[]; claims: NameClaim[] }> {
+  const res = await moderationRequest(adminToken, roomId, 'moderation', { method: 'GET' }, 'Failed to load moderation');
+  return res.json();
+}
+
+// Delete a message for everyone; connected clients drop it right away
+export async function removeMessage(adminToken: string, roomId: string, msgId: string): Promise<void> {
+  await moderationRequest(
+    adminToken,
+    roomId,
+    `messages/${encodeURIComponent(msgId)}`,
+    { method: 'DELETE' },
+    'Failed to remove message'
+  );
+}
+
+export async function banKey(
+  adminToken: string,
+  roomId: string,
+  keyFingerprint: string,
+  reason?: string
+): Promise<void> {
+  await moderationRequest(adminToken, roomId, 'bans', { method: 'POST', body: { keyFingerprint, reason } }, 'Failed to ban key');
+}
+
+export async function unbanKey(adminToken: string, roomId: string, keyFingerprint: string): Promise<void> {
+  await moderationRequest(
+    adminToken,
+    roomId,
+    `bans/${encodeURIComponent(keyFingerprint)}`,
+    { method: 'DELETE' },
+    'Failed to lift ban'
+  );
+}
+
+// Release a name claim, or hand it to another key
+export async function updateNameClaim(
+  adminToken: string,
+  roomId: string,
+  nameHash: string,
+  keyFingerprint: string | null
+): Promise<void> {
+  await moderationRequest(
+    adminToken,
+    roomId,
+    `claims/${encodeURIComponent(nameHash)}`,
+    keyFingerprint === null ? { method: 'DELETE' } : { method: 'PUT', body: { keyFingerprint } },
+    'Failed to update name claim'
+  );
+}
+
 export async function deleteRoom(
   adminToken: string,
   roomId: string
@@ -169,3 +691,45 @@ export async function deleteRoom(
   }
   return res.json();
 }
+
+export interface AuditEntry {
+  auditId: number;
+  createdAt: string;
+  actor: string;
+  ip: string | null;
+  action: string;
+  roomId: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditFilters {
+  roomId?: string;
+  action?: string;
+  actor?: string;
+  since?: string;
+  until?: string;
+  before?: number;
+  limit?: number;
+}
+
+// Newest first; pass the returned nextBefore as `before` to load the next page
+export async function listAuditLog(
+  adminToken: string,
+  filters: AuditFilters = {}
+): Promise<{ entries: AuditEntry[]; nextBefore: number | null }> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  const query = params.toString();
+  const res = await fetch(`${API_BASE}/api/admin/audit${query ? `?${query}` : ''}`, {
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+    },
+  });
+  if (!res.ok) {
+    throw adminApiError(res.status, 'Failed to load audit log');
+  }
+  return res.json();
+}
@@ -0,0 +1,34 @@
+import { argon2id } from 'hash-wasm';
+
+// Argon2id derivation off the main thread (see argon2idBits in crypto.ts). The
+// WASM module is inlined in hash-wasm, so nothing is fetched at runtime.
+
+export interface Argon2Request {
+  password: string;
+  salt: Uint8Array;
+  iterations: number;
+  memoryKiB: number;
+  parallelism: number;
+}
+
+export type Argon2Response = { bits: Uint8Array } | { error: string };
+
+self.onmessage = async (event: MessageEvent<Argon2Request>) => {
+  const { password, salt, iterations, memoryKiB, parallelism } = event.data;
+  let response: Argon2Response;
+  try {
+    const bits = await argon2id({
+      password,
+      salt,
+      iterations,
+      parallelism,
+      memorySize: memoryKiB,
+      hashLength: 32,
+      outputType: 'binary',
+    });
+    response = { bits };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : 'Argon2id failed' };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,84 @@
+// Image attachments: downscaled and encrypted in the browser, uploaded as opaque
+// blobs, and referenced from the encrypted message payload.
+
+import { encryptAttachment, decryptAttachment, AttachmentRef } from './crypto';
+import { uploadAttachment, downloadAttachment } from './api';
+
+const MAX_IMAGE_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.85;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+// Re-encode an image to JPEG no larger than MAX_IMAGE_DIMENSION on either side.
+// Re-encoding also drops EXIF metadata such as the location a photo was taken.
+async function downscaleImage(file: File): Promise<{ blob: Blob; width: number; height: number }> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas not supported');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', IMAGE_QUALITY));
+  if (!blob) throw new Error('Failed to encode image');
+  return { blob, width, height };
+}
+
+// Downscale, encrypt and upload an image, returning the reference to put in the payload
+export async function uploadImageAttachment(roomId: string, file: File): Promise<AttachmentRef> {
+  const { blob, width, height } = await downscaleImage(file);
+  const { ciphertext, keyB64, ivB64 } = await encryptAttachment(await blob.arrayBuffer());
+  const { attachmentId } = await uploadAttachment(roomId, ciphertext);
+  return { attachmentId, keyB64, ivB64, mimeType: 'image/jpeg', size: blob.size, width, height };
+}
+
+// Decrypted attachments by ID, as object URLs, so re-renders don't refetch
+const objectUrls = new Map<string, Promise<string>>();
+
+export function loadAttachmentUrl(roomId: string, ref: AttachmentRef): Promise<string> {
+  let url = objectUrls.get(ref.attachmentId);
+  if (!url) {
+    url = downloadAttachment(roomId, ref.attachmentId)
+      .then((ciphertext) => decryptAttachment(ciphertext, ref.keyB64, ref.ivB64))
+      .then((plaintext) => URL.createObjectURL(new Blob([plaintext], { type: ref.mimeType })));
+    // Forget failures so a later render can retry
+    url.catch(() => objectUrls.delete(ref.attachmentId));
+    objectUrls.set(ref.attachmentId, url);
+  }
+  return url;
+}
+
+// Validate attachment references from a decrypted payload. Payloads come from
+// other members; only images are rendered and malformed entries are dropped.
+export function parseAttachmentRefs(value: unknown): AttachmentRef[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const refs = value.slice(0, MAX_ATTACHMENTS_PER_MESSAGE).flatMap((item): AttachmentRef[] => {
+    const ref = (item || {}) as Record<string, unknown>;
+    if (
+      typeof ref.attachmentId !== 'string' ||
+      !/^[0-9a-f]{32}$/.test(ref.attachmentId) ||
+      typeof ref.keyB64 !== 'string' ||
+      typeof ref.ivB64 !== 'string' ||
+      typeof ref.mimeType !== 'string' ||
+      !ref.mimeType.startsWith('image/') ||
+      typeof ref.size !== 'number'
+    ) {
+      return [];
+    }
+    return [{
+      attachmentId: ref.attachmentId,
+      keyB64: ref.keyB64,
+      ivB64: ref.ivB64,
+      mimeType: ref.mimeType,
+      size: ref.size,
+      width: typeof ref.width === 'number' ? ref.width : undefined,
+      height: typeof ref.height === 'number' ? ref.height : undefined,
+    }];
+  });
+  return refs.length > 0 ? refs : undefined;
+}
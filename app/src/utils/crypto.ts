@@ -1,3 +1,6 @@
+import type { RecipeCard } from './recipe';
+import type { Argon2Request, Argon2Response } from './argon2.worker';
+
 // Configuration flag: true = display name encrypted (default), false = plaintext sender name
 export const ENCRYPT_DISPLAY_NAME = true;
 
@@ -26,23 +29,75 @@ export function bytesToBase64(bytes: Uint8Array): string {
 
 // Generate a passphrase: 26-char base32 (no ambiguous chars: 0, 1, O, I, L)
 const BASE32_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const PASSPHRASE_LENGTH = 26;
 
 export function generatePassphrase(): string {
-  const bytes = new Uint8Array(26);
+  const bytes = new Uint8Array(PASSPHRASE_LENGTH);
   crypto.getRandomValues(bytes);
   let result = '';
-  for (let i = 0; i < 26; i++) {
+  for (let i = 0; i < PASSPHRASE_LENGTH; i++) {
     result += BASE32_CHARS[bytes[i] % BASE32_CHARS.length];
   }
   return result;
 }
 
-// Derive AES-GCM key from passphrase using PBKDF2-HMAC-SHA256
-export async function deriveKeyPBKDF2(
-  passphrase: string,
-  saltB64: string,
-  iterations: number
-): Promise<CryptoKey> {
+// Generated passphrases are shown in groups of this many characters for reading aloud
+const PASSPHRASE_GROUP_SIZE = 4;
+
+// "ABCD-EFGH-..." form of a generated passphrase; anything else is returned as is
+export function formatPassphrase(passphrase: string): string {
+  if (!isGeneratedPassphrase(passphrase)) return passphrase;
+  return passphrase.match(new RegExp(`.{1,${PASSPHRASE_GROUP_SIZE}}`, 'g'))!.join('-');
+}
+
+// Undo formatPassphrase for typed input: separators and case don't matter for a
+// generated passphrase. Other input is only trimmed, so custom passphrases still work.
+export function normalizePassphrase(input: string): string {
+  const trimmed = input.trim();
+  const compact = trimmed.replace(/[\s-]+/g, '').toUpperCase();
+  return isGeneratedPassphrase(compact) ? compact : trimmed;
+}
+
+function isGeneratedPassphrase(value: string): boolean {
+  return value.length === PASSPHRASE_LENGTH && [...value].every((c) => BASE32_CHARS.includes(c));
+}
+
+export type KdfAlg = 'pbkdf2' | 'argon2id';
+
+// Key derivation settings of a key version, in the API's field names. kdfIters is
+// the PBKDF2 iteration count, or the Argon2id time cost. Servers and key ring
+// entries from before Argon2id have no kdfAlg and mean PBKDF2.
+export interface KdfFields {
+  kdfAlg?: KdfAlg;
+  kdfIters: number;
+  kdfMemoryKiB?: number | null;
+  kdfParallelism?: number | null;
+}
+
+// Default for new rooms and rotations: memory-hard, and light enough for phones
+export const DEFAULT_KDF: KdfFields = { kdfAlg: 'argon2id', kdfIters: 3, kdfMemoryKiB: 64 * 1024, kdfParallelism: 1 };
+// For rooms whose members use devices that can't spare the memory
+export const PBKDF2_KDF: KdfFields = { kdfAlg: 'pbkdf2', kdfIters: 100000, kdfMemoryKiB: null, kdfParallelism: null };
+
+// Just the KDF fields of a room, key version or key ring entry
+export function kdfFieldsOf(source: KdfFields): KdfFields {
+  return {
+    kdfAlg: source.kdfAlg ?? 'pbkdf2',
+    kdfIters: source.kdfIters,
+    kdfMemoryKiB: source.kdfMemoryKiB ?? null,
+    kdfParallelism: source.kdfParallelism ?? null,
+  };
+}
+
+// Generate a random 16-byte KDF salt
+export function generateSalt(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return bytesToBase64(bytes);
+}
+
+// Run PBKDF2-SHA256 over the passphrase, producing 256 bits
+async function pbkdf2Bits(passphrase: string, saltB64: string, iterations: number): Promise<ArrayBuffer> {
   const encoder = new TextEncoder();
   const passphraseBytes = encoder.encode(passphrase);
   const salt = base64ToBytes(saltB64);
@@ -53,11 +108,10 @@ export async function deriveKeyPBKDF2(
     passphraseBytes,
     'PBKDF2',
     false,
-    ['deriveKey']
+    ['deriveBits']
   );
 
-  // Derive AES-GCM key
-  const key = await crypto.subtle.deriveKey(
+  return crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
       salt: toArrayBuffer(salt),
@@ -65,50 +119,223 @@ export async function deriveKeyPBKDF2(
       hash: 'SHA-256',
     },
     keyMaterial,
-    { name: 'AES-GCM', length: 256 },
+    256
+  );
+}
+
+// Argon2id runs in a Web Worker, since hashing tens of MiB on the main thread
+// would freeze the page for the whole derivation. Derivations are queued so only
+// one worker holds its memory at a time.
+let argon2Queue: Promise<unknown> = Promise.resolve();
+
+function argon2idBits(passphrase: string, saltB64: string, kdf: KdfFields): Promise<ArrayBuffer> {
+  const run = () =>
+    new Promise<ArrayBuffer>((resolve, reject) => {
+      const worker = new Worker(new URL('./argon2.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<Argon2Response>) => {
+        worker.terminate();
+        if ('bits' in event.data) {
+          resolve(toArrayBuffer(event.data.bits));
+        } else {
+          reject(new Error(event.data.error));
+        }
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Argon2id worker failed'));
+      };
+      worker.postMessage({
+        password: passphrase,
+        salt: base64ToBytes(saltB64),
+        iterations: kdf.kdfIters,
+        memoryKiB: kdf.kdfMemoryKiB as number,
+        parallelism: kdf.kdfParallelism as number,
+      } satisfies Argon2Request);
+    });
+
+  const result = argon2Queue.then(run, run);
+  argon2Queue = result.catch(() => undefined);
+  return result;
+}
+
+// 256 bits of key material from the passphrase, with the key version's KDF
+function kdfBits(passphrase: string, saltB64: string, kdf: KdfFields): Promise<ArrayBuffer> {
+  if (kdf.kdfAlg === 'argon2id') {
+    if (!kdf.kdfMemoryKiB || !kdf.kdfParallelism) {
+      return Promise.reject(new Error('Missing Argon2id parameters'));
+    }
+    return argon2idBits(passphrase, saltB64, kdf);
+  }
+  return pbkdf2Bits(passphrase, saltB64, kdf.kdfIters);
+}
+
+// Derive the AES-GCM message key. Importing the raw PBKDF2 bits gives the same
+// key as deriving AES-GCM directly, so keys from older clients still match.
+export async function deriveRoomKey(passphrase: string, saltB64: string, kdf: KdfFields): Promise<CryptoKey> {
+  const bits = await kdfBits(passphrase, saltB64, kdf);
+  return crypto.subtle.importKey('raw', bits, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+export interface RoomSecrets {
+  key: CryptoKey;
+  // Membership auth key, shared with the server when a key version is created
+  authKeyB64: string;
+  // HMAC key for hashing display names into server-visible name claims
+  nameKey: CryptoKey;
+}
+
+const AUTH_KEY_INFO = 'recipe-box auth v1';
+const NAME_KEY_INFO = 'recipe-box name v1';
+
+// Expand KDF output into an independent 256-bit subkey
+async function hkdfBits(bits: ArrayBuffer, info: string): Promise<ArrayBuffer> {
+  const hkdfKey = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveBits']);
+  return crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new ArrayBuffer(0),
+      info: new TextEncoder().encode(info),
+    },
+    hkdfKey,
+    256
+  );
+}
+
+// Derive the message key plus the membership auth key and name-hash key. Both
+// are HKDF expansions of the KDF output, so handing the auth key to the
+// server reveals nothing about the others.
+export async function deriveRoomSecrets(passphrase: string, saltB64: string, kdf: KdfFields): Promise<RoomSecrets> {
+  const bits = await kdfBits(passphrase, saltB64, kdf);
+  const key = await crypto.subtle.importKey('raw', bits, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  const authBits = await hkdfBits(bits, AUTH_KEY_INFO);
+  const nameKey = await crypto.subtle.importKey(
+    'raw',
+    await hkdfBits(bits, NAME_KEY_INFO),
+    { name: 'HMAC', hash: 'SHA-256' },
     false,
-    ['encrypt', 'decrypt']
+    ['sign']
   );
 
-  return key;
+  return { key, authKeyB64: bytesToBase64(new Uint8Array(authBits)), nameKey };
 }
 
-// Message payload interface
-export interface MessagePayload {
-  text: string;
+// Keyed hash of a display name, used by the server to enforce unique names
+// without learning them. Hex encoded, 64 chars. The name key differs per key
+// version, so claims start over after a passphrase rotation.
+export async function hashDisplayName(nameKey: CryptoKey, roomId: string, displayName: string): Promise<string> {
+  const mac = await crypto.subtle.sign(
+    'HMAC',
+    nameKey,
+    new TextEncoder().encode(`${roomId}|${displayName.normalize('NFC')}`)
+  );
+  return Array.from(new Uint8Array(mac))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Answer a server membership challenge: HMAC-SHA256(authKey, roomId|version|nonce)
+export async function createAuthProof(
+  authKeyB64: string,
+  roomId: string,
+  version: number,
+  nonce: string
+): Promise<string> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    toArrayBuffer(base64ToBytes(authKeyB64)),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const proof = await crypto.subtle.sign(
+    'HMAC',
+    hmacKey,
+    new TextEncoder().encode(`${roomId}|${version}|${nonce}`)
+  );
+  return bytesToBase64(new Uint8Array(proof));
+}
+
+// Encrypted file stored on the server. Its per-file key only ever travels
+// inside the encrypted message payload.
+export interface AttachmentRef {
+  attachmentId: string;
+  keyB64: string;
+  ivB64: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+}
+
+// Fields shared by every message kind
+interface MessagePayloadBase {
   displayName: string;
   clientTs: number;
+  attachments?: AttachmentRef[];
   // Signing fields (optional for backward compat with unsigned messages)
   signatureB64?: string;
   senderPublicKeyJwk?: JsonWebKey;
+  // Device identity that certified senderPublicKeyJwk for this room (optional for older clients)
+  identityPublicKeyJwk?: JsonWebKey;
+  identityCertB64?: string;
+}
+
+// Free text. `kind` is absent on messages sent before kinds existed.
+export interface TextMessagePayload extends MessagePayloadBase {
+  kind?: 'text';
+  text: string;
+}
+
+// Structured recipe card. `text` holds a plain summary for older clients.
+export interface RecipeMessagePayload extends MessagePayloadBase {
+  kind: 'recipe';
+  text: string;
+  recipe: RecipeCard;
+}
+
+// Message payload, discriminated by `kind`
+export type MessagePayload = TextMessagePayload | RecipeMessagePayload;
+
+// Structured content covered by a message signature in addition to the text
+export interface SignedContent {
+  kind: 'text' | 'recipe';
+  recipe?: RecipeCard;
+  attachments?: AttachmentRef[];
+}
+
+// Plain text messages without attachments keep the original signature format
+export function signedContentOf(payload: MessagePayload): SignedContent | undefined {
+  if (payload.kind !== 'recipe' && !payload.attachments?.length) return undefined;
+  return {
+    kind: payload.kind || 'text',
+    recipe: payload.kind === 'recipe' ? payload.recipe : undefined,
+    attachments: payload.attachments?.length ? payload.attachments : undefined,
+  };
 }
 
-// Build AAD (Additional Authenticated Data): room_id + version + msg_id
-function buildAAD(roomId: string, version: number, msgId: string): Uint8Array {
+// Build AAD (Additional Authenticated Data): room_id + version + msg_id, plus the
+// group key epoch for content encrypted under one
+function buildAAD(roomId: string, version: number, msgId: string, epoch?: number): Uint8Array {
   const encoder = new TextEncoder();
   // Concatenate with delimiter to prevent ambiguity
-  const aadString = `${roomId}|${version}|${msgId}`;
+  const aadString = epoch === undefined ? `${roomId}|${version}|${msgId}` : `${roomId}|${version}|${epoch}|${msgId}`;
   return encoder.encode(aadString);
 }
 
-// Encrypt payload with AES-GCM
-export async function encryptPayload(
+// Encrypt a JSON value with AES-GCM under the given AAD
+async function encryptJson(
   key: CryptoKey,
-  roomId: string,
-  version: number,
-  msgId: string,
-  payload: MessagePayload
+  aad: Uint8Array,
+  value: unknown
 ): Promise<{ ivB64: string; ciphertextB64: string }> {
   // Generate random 96-bit (12 bytes) IV
   const iv = new Uint8Array(12);
   crypto.getRandomValues(iv);
 
-  // Build AAD
-  const aad = buildAAD(roomId, version, msgId);
-
   // Encode payload as JSON
   const encoder = new TextEncoder();
-  const payloadBytes = encoder.encode(JSON.stringify(payload));
+  const payloadBytes = encoder.encode(JSON.stringify(value));
 
   // Encrypt
   const ciphertext = await crypto.subtle.encrypt(
@@ -127,18 +354,15 @@ export async function encryptPayload(
   };
 }
 
-// Decrypt payload with AES-GCM
-export async function decryptPayload(
+// Decrypt a JSON value with AES-GCM under the given AAD
+async function decryptJson<T>(
   key: CryptoKey,
-  roomId: string,
-  version: number,
-  msgId: string,
+  aad: Uint8Array,
   ivB64: string,
   ciphertextB64: string
-): Promise<MessagePayload> {
+): Promise<T> {
   const iv = base64ToBytes(ivB64);
   const ciphertext = base64ToBytes(ciphertextB64);
-  const aad = buildAAD(roomId, version, msgId);
 
   const plaintextBytes = await crypto.subtle.decrypt(
     {
@@ -152,7 +376,219 @@ export async function decryptPayload(
 
   const decoder = new TextDecoder();
   const json = decoder.decode(plaintextBytes);
-  return JSON.parse(json) as MessagePayload;
+  return JSON.parse(json) as T;
+}
+
+// Encrypt payload with AES-GCM, under the passphrase key of `version` or the group key of `epoch`
+export async function encryptPayload(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  msgId: string,
+  payload: MessagePayload,
+  epoch?: number
+): Promise<{ ivB64: string; ciphertextB64: string }> {
+  return encryptJson(key, buildAAD(roomId, version, msgId, epoch), payload);
+}
+
+// Decrypt payload with AES-GCM
+export async function decryptPayload(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  msgId: string,
+  ivB64: string,
+  ciphertextB64: string,
+  epoch?: number
+): Promise<MessagePayload> {
+  return decryptJson<MessagePayload>(key, buildAAD(roomId, version, msgId, epoch), ivB64, ciphertextB64);
+}
+
+// Edit or delete of an existing message. Deletes carry an empty text.
+export interface RevisionPayload {
+  kind: 'edit' | 'delete';
+  text: string;
+  // Replacement card for an edited recipe; signed along with the text
+  recipe?: RecipeCard;
+  clientTs: number;
+  signatureB64?: string;
+  senderPublicKeyJwk?: JsonWebKey;
+}
+
+// Revisions are bound to both the target message and their own ID
+function revisionAADId(msgId: string, revId: string): string {
+  return `${msgId}:${revId}`;
+}
+
+// Identifier signed in place of a msgId for revisions: kind:msgId:revId.
+// Message IDs never contain ':', so this cannot collide with a message signature.
+export function revisionSigningId(kind: RevisionPayload['kind'], msgId: string, revId: string): string {
+  return `${kind}:${msgId}:${revId}`;
+}
+
+export async function encryptRevision(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  msgId: string,
+  revId: string,
+  payload: RevisionPayload,
+  epoch?: number
+): Promise<{ ivB64: string; ciphertextB64: string }> {
+  return encryptJson(key, buildAAD(roomId, version, revisionAADId(msgId, revId), epoch), payload);
+}
+
+export async function decryptRevision(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  msgId: string,
+  revId: string,
+  ivB64: string,
+  ciphertextB64: string,
+  epoch?: number
+): Promise<RevisionPayload> {
+  return decryptJson<RevisionPayload>(
+    key,
+    buildAAD(roomId, version, revisionAADId(msgId, revId), epoch),
+    ivB64,
+    ciphertextB64
+  );
+}
+
+// Presence name blobs are bound to the member's fingerprint so they can't be replayed for another member
+function presenceAADId(keyFingerprint: string): string {
+  return `presence:${keyFingerprint}`;
+}
+
+// Encrypt a display name for the ephemeral presence roster
+export async function encryptPresenceName(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  keyFingerprint: string,
+  displayName: string
+): Promise<{ ivB64: string; ciphertextB64: string }> {
+  return encryptJson(key, buildAAD(roomId, version, presenceAADId(keyFingerprint)), { displayName });
+}
+
+export async function decryptPresenceName(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  keyFingerprint: string,
+  ivB64: string,
+  ciphertextB64: string
+): Promise<string> {
+  const { displayName } = await decryptJson<{ displayName: string }>(
+    key,
+    buildAAD(roomId, version, presenceAADId(keyFingerprint)),
+    ivB64,
+    ciphertextB64
+  );
+  return displayName;
+}
+
+// Encrypt a file with a fresh random AES-GCM key. Each key encrypts exactly one
+// file, so no AAD is needed to bind the ciphertext to a message.
+export async function encryptAttachment(
+  data: ArrayBuffer
+): Promise<{ ciphertext: ArrayBuffer; keyB64: string; ivB64: string }> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = new Uint8Array(12);
+  crypto.getRandomValues(iv);
+
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: toArrayBuffer(iv) }, key, data);
+  const rawKey = await crypto.subtle.exportKey('raw', key);
+
+  return {
+    ciphertext,
+    keyB64: bytesToBase64(new Uint8Array(rawKey)),
+    ivB64: bytesToBase64(iv),
+  };
+}
+
+export async function decryptAttachment(
+  ciphertext: ArrayBuffer,
+  keyB64: string,
+  ivB64: string
+): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    toArrayBuffer(base64ToBytes(keyB64)),
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt']
+  );
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: toArrayBuffer(base64ToBytes(ivB64)) }, key, ciphertext);
+}
+
+// Room metadata, encrypted as one blob so the server can't tell which fields are set
+export interface RoomMetadata {
+  title?: string;
+  description?: string;
+  tags?: string[];
+}
+
+const ROOM_METADATA_AAD_ID = 'room-meta';
+
+export async function encryptRoomMetadata(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  metadata: RoomMetadata
+): Promise<{ ivB64: string; ciphertextB64: string }> {
+  return encryptJson(key, buildAAD(roomId, version, ROOM_METADATA_AAD_ID), metadata);
+}
+
+export async function decryptRoomMetadata(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  ivB64: string,
+  ciphertextB64: string
+): Promise<RoomMetadata> {
+  return decryptJson<RoomMetadata>(key, buildAAD(roomId, version, ROOM_METADATA_AAD_ID), ivB64, ciphertextB64);
+}
+
+// --- Passphrase key check ---
+
+const KEY_CHECK_LABEL = 'recipe-box key check v1';
+
+// Key checks are bound to the room and the salt of the key version they belong to
+function buildKeyCheckAAD(roomId: string, saltB64: string): Uint8Array {
+  return new TextEncoder().encode(`${roomId}|key-check|${saltB64}`);
+}
+
+// Encrypt a fixed label under the derived key. Stored per key version, it lets
+// joiners reject a wrong passphrase up front. It is known plaintext, so anyone
+// holding it can test passphrase guesses offline; the server only hands it out
+// for key versions without an auth key, whose history is readable by anyone.
+export async function createKeyCheck(
+  key: CryptoKey,
+  roomId: string,
+  saltB64: string
+): Promise<{ ivB64: string; ciphertextB64: string }> {
+  return encryptJson(key, buildKeyCheckAAD(roomId, saltB64), KEY_CHECK_LABEL);
+}
+
+export async function verifyKeyCheck(
+  key: CryptoKey,
+  roomId: string,
+  saltB64: string,
+  check: { ivB64: string; ciphertextB64: string }
+): Promise<boolean> {
+  try {
+    const label = await decryptJson<string>(
+      key,
+      buildKeyCheckAAD(roomId, saltB64),
+      check.ivB64,
+      check.ciphertextB64
+    );
+    return label === KEY_CHECK_LABEL;
+  } catch {
+    return false;
+  }
 }
 
 // Generate a ULID-like message ID (timestamp + random)
@@ -188,14 +624,34 @@ export async function importPublicKeyJwk(jwk: JsonWebKey): Promise<CryptoKey> {
   return crypto.subtle.importKey('jwk', jwk, ECDSA_ALGO, true, ['verify']);
 }
 
-// Build the canonical signing payload: text|displayName|clientTs|msgId
+// JSON with object keys sorted at every level, so equal values serialize identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Build the canonical signing payload: text|displayName|clientTs|msgId.
+// Structured kinds sign canonical JSON of all fields instead; it always ends
+// in '}', so it can't collide with a text signature, which ends in the msgId.
 export function buildSigningPayload(
   text: string,
   displayName: string,
   clientTs: number,
-  msgId: string
+  msgId: string,
+  content?: SignedContent
 ): Uint8Array {
   const encoder = new TextEncoder();
+  if (content) {
+    return encoder.encode(canonicalJson({ ...content, text, displayName, clientTs, msgId }));
+  }
   return encoder.encode(`${text}|${displayName}|${clientTs}|${msgId}`);
 }
 
@@ -205,9 +661,10 @@ export async function signMessage(
   text: string,
   displayName: string,
   clientTs: number,
-  msgId: string
+  msgId: string,
+  content?: SignedContent
 ): Promise<string> {
-  const data = buildSigningPayload(text, displayName, clientTs, msgId);
+  const data = buildSigningPayload(text, displayName, clientTs, msgId, content);
   const signature = await crypto.subtle.sign(ECDSA_SIGN_ALGO, privateKey, toArrayBuffer(data));
   return bytesToBase64(new Uint8Array(signature));
 }
@@ -219,9 +676,10 @@ export async function verifySignature(
   text: string,
   displayName: string,
   clientTs: number,
-  msgId: string
+  msgId: string,
+  content?: SignedContent
 ): Promise<boolean> {
-  const data = buildSigningPayload(text, displayName, clientTs, msgId);
+  const data = buildSigningPayload(text, displayName, clientTs, msgId, content);
   const signature = base64ToBytes(signatureB64);
   return crypto.subtle.verify(ECDSA_SIGN_ALGO, publicKey, toArrayBuffer(signature), toArrayBuffer(data));
 }
@@ -237,3 +695,287 @@ export async function computeKeyFingerprint(jwk: JsonWebKey): Promise<string> {
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('');
 }
+
+// --- Device identity ---
+//
+// A device identity is an ECDSA keypair shared by all rooms on a device. It
+// certifies each room's signing key, so a sender trusted in one room is
+// recognized in any other room where they use the same device.
+
+// Only the curve point of a public key, so equal keys serialize identically
+function publicPoint(jwk: JsonWebKey): JsonWebKey {
+  return { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+}
+
+function roomKeyCertPayload(roomId: string, roomKeyJwk: JsonWebKey): Uint8Array {
+  return new TextEncoder().encode(canonicalJson({ type: 'room-key', roomId, roomKey: publicPoint(roomKeyJwk) }));
+}
+
+// Sign a room's signing key with the device identity
+export async function certifyRoomKey(
+  identityPrivateKey: CryptoKey,
+  roomId: string,
+  roomKeyJwk: JsonWebKey
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    ECDSA_SIGN_ALGO,
+    identityPrivateKey,
+    toArrayBuffer(roomKeyCertPayload(roomId, roomKeyJwk))
+  );
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+export async function verifyRoomKeyCert(
+  identityJwk: JsonWebKey,
+  certB64: string,
+  roomId: string,
+  roomKeyJwk: JsonWebKey
+): Promise<boolean> {
+  try {
+    const identityKey = await importPublicKeyJwk(identityJwk);
+    return await crypto.subtle.verify(
+      ECDSA_SIGN_ALGO,
+      identityKey,
+      toArrayBuffer(base64ToBytes(certB64)),
+      toArrayBuffer(roomKeyCertPayload(roomId, roomKeyJwk))
+    );
+  } catch {
+    return false;
+  }
+}
+
+// --- Group epoch keys ---
+//
+// Rooms with group keys encrypt messages under epoch keys instead of the passphrase
+// key. Every member has an ECDH key next to its signing key and publishes both in a
+// member card, sealed under the passphrase key so only passphrase holders can
+// vouch for one. A new epoch key is wrapped for each member with a one-off
+// (ephemeral) ECDH key and signed by the member who created it.
+
+const ECDH_ALGO: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const EPOCH_WRAP_INFO = 'recipe-box epoch wrap v1';
+
+// Generate an ECDH P-256 keypair for receiving epoch keys
+export async function generateAgreementKeypair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDH_ALGO, true, ['deriveBits']);
+}
+
+export async function importAgreementPrivateKeyJwk(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', jwk, ECDH_ALGO, false, ['deriveBits']);
+}
+
+// Public keys of one member, with the agreement key signed by the signing key
+export interface MemberCard {
+  signingPublicKeyJwk: JsonWebKey;
+  agreementPublicKeyJwk: JsonWebKey;
+  signatureB64: string;
+}
+
+function memberCardSigningPayload(roomId: string, agreementPublicKeyJwk: JsonWebKey): Uint8Array {
+  return new TextEncoder().encode(
+    canonicalJson({ type: 'member-card', roomId, agreementPublicKeyJwk: publicPoint(agreementPublicKeyJwk) })
+  );
+}
+
+export async function createMemberCard(
+  signingPrivateKey: CryptoKey,
+  signingPublicKeyJwk: JsonWebKey,
+  agreementPublicKeyJwk: JsonWebKey,
+  roomId: string
+): Promise<MemberCard> {
+  const signature = await crypto.subtle.sign(
+    ECDSA_SIGN_ALGO,
+    signingPrivateKey,
+    toArrayBuffer(memberCardSigningPayload(roomId, agreementPublicKeyJwk))
+  );
+  return {
+    // As exported, since member fingerprints are computed over the whole JWK
+    signingPublicKeyJwk,
+    agreementPublicKeyJwk: publicPoint(agreementPublicKeyJwk),
+    signatureB64: bytesToBase64(new Uint8Array(signature)),
+  };
+}
+
+const MEMBER_PROOF_LABEL = 'recipe-box member proof v1';
+
+// Sign the server's per-socket challenge, proving this socket holds our signing key
+export async function signMemberProof(signingPrivateKey: CryptoKey, roomId: string, challenge: string): Promise<string> {
+  const payload = new TextEncoder().encode(`${MEMBER_PROOF_LABEL}|${roomId}|${challenge}`);
+  const signature = await crypto.subtle.sign(ECDSA_SIGN_ALGO, signingPrivateKey, toArrayBuffer(payload));
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+// A card is valid for the fingerprint of its signing key, which must have signed its agreement key
+export async function verifyMemberCard(card: MemberCard, roomId: string, keyFingerprint: string): Promise<boolean> {
+  try {
+    if ((await computeKeyFingerprint(card.signingPublicKeyJwk)) !== keyFingerprint) return false;
+    const signingKey = await importPublicKeyJwk(card.signingPublicKeyJwk);
+    return await crypto.subtle.verify(
+      ECDSA_SIGN_ALGO,
+      signingKey,
+      toArrayBuffer(base64ToBytes(card.signatureB64)),
+      toArrayBuffer(memberCardSigningPayload(roomId, card.agreementPublicKeyJwk))
+    );
+  } catch {
+    return false;
+  }
+}
+
+function memberCardAADId(keyFingerprint: string): string {
+  return `member:${keyFingerprint}`;
+}
+
+export async function encryptMemberCard(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  keyFingerprint: string,
+  card: MemberCard
+): Promise<{ ivB64: string; ciphertextB64: string }> {
+  return encryptJson(key, buildAAD(roomId, version, memberCardAADId(keyFingerprint)), card);
+}
+
+export async function decryptMemberCard(
+  key: CryptoKey,
+  roomId: string,
+  version: number,
+  keyFingerprint: string,
+  ivB64: string,
+  ciphertextB64: string
+): Promise<MemberCard> {
+  return decryptJson<MemberCard>(key, buildAAD(roomId, version, memberCardAADId(keyFingerprint)), ivB64, ciphertextB64);
+}
+
+// A fresh random epoch key, raw so it can be wrapped for each member
+export function generateEpochKey(): Uint8Array {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+export async function importEpochKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', toArrayBuffer(raw), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+// One member's copy of an epoch key. `members` lists everyone the epoch was
+// wrapped for, so recipients know who else can read it.
+export interface EpochEnvelope {
+  epoch: number;
+  sender: string;
+  recipient: string;
+  members: string[];
+  ephemeralPublicKeyJwk: JsonWebKey;
+  ivB64: string;
+  ciphertextB64: string;
+  signatureB64: string;
+}
+
+type UnsignedEnvelope = Omit<EpochEnvelope, 'signatureB64'>;
+
+function envelopeSigningPayload(roomId: string, envelope: UnsignedEnvelope): Uint8Array {
+  return new TextEncoder().encode(canonicalJson({ type: 'epoch-envelope', roomId, ...envelope }));
+}
+
+function envelopeAAD(roomId: string, epoch: number, recipient: string): Uint8Array {
+  return new TextEncoder().encode(`${roomId}|epoch|${epoch}|${recipient}`);
+}
+
+// AES key for one envelope, from ECDH between the ephemeral key and the recipient's agreement key
+async function envelopeWrappingKey(privateKey: CryptoKey, publicKeyJwk: JsonWebKey): Promise<CryptoKey> {
+  const publicKey = await crypto.subtle.importKey('jwk', publicPoint(publicKeyJwk), ECDH_ALGO, false, []);
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const bits = await hkdfBits(shared, EPOCH_WRAP_INFO);
+  return crypto.subtle.importKey('raw', bits, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+// Wrap an epoch key for every member card, with a single ephemeral key that is
+// discarded afterwards. Returns the serialized envelopes keyed by fingerprint.
+export async function sealEpochKey(
+  rawKey: Uint8Array,
+  options: {
+    roomId: string;
+    epoch: number;
+    sender: string;
+    signingPrivateKey: CryptoKey;
+    members: Map<string, MemberCard>;
+  }
+): Promise<Record<string, string>> {
+  const { roomId, epoch, sender, signingPrivateKey, members } = options;
+  const ephemeral = await generateAgreementKeypair();
+  const ephemeralPublicKeyJwk = publicPoint(await exportPublicKeyJwk(ephemeral.publicKey));
+  const memberList = [...members.keys()].sort();
+
+  const envelopes: Record<string, string> = {};
+  for (const [recipient, card] of members) {
+    const wrappingKey = await envelopeWrappingKey(ephemeral.privateKey, card.agreementPublicKeyJwk);
+    const iv = new Uint8Array(12);
+    crypto.getRandomValues(iv);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: toArrayBuffer(iv), additionalData: toArrayBuffer(envelopeAAD(roomId, epoch, recipient)) },
+      wrappingKey,
+      toArrayBuffer(rawKey)
+    );
+    const unsigned: UnsignedEnvelope = {
+      epoch,
+      sender,
+      recipient,
+      members: memberList,
+      ephemeralPublicKeyJwk,
+      ivB64: bytesToBase64(iv),
+      ciphertextB64: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+    const signature = await crypto.subtle.sign(
+      ECDSA_SIGN_ALGO,
+      signingPrivateKey,
+      toArrayBuffer(envelopeSigningPayload(roomId, unsigned))
+    );
+    envelopes[recipient] = JSON.stringify({ ...unsigned, signatureB64: bytesToBase64(new Uint8Array(signature)) });
+  }
+  return envelopes;
+}
+
+// Unwrap our copy of an epoch key. The envelope must be addressed to us for this
+// epoch and signed by `senderCard`'s key. Throws if anything doesn't check out.
+export async function openEpochKey(
+  serialized: string,
+  options: {
+    roomId: string;
+    epoch: number;
+    recipient: string;
+    agreementPrivateKey: CryptoKey;
+    senderCard: (fingerprint: string) => MemberCard | undefined;
+  }
+): Promise<{ key: CryptoKey; envelope: EpochEnvelope }> {
+  const { roomId, epoch, recipient, agreementPrivateKey } = options;
+  const envelope = JSON.parse(serialized) as EpochEnvelope;
+  if (envelope.epoch !== epoch || envelope.recipient !== recipient || !envelope.members.includes(recipient)) {
+    throw new Error('Envelope is not for this epoch and member');
+  }
+
+  const senderCard = options.senderCard(envelope.sender);
+  if (!senderCard || !envelope.members.includes(envelope.sender)) {
+    throw new Error('Envelope sender is not a known member');
+  }
+  const { signatureB64, ...unsigned } = envelope;
+  const valid = await crypto.subtle.verify(
+    ECDSA_SIGN_ALGO,
+    await importPublicKeyJwk(senderCard.signingPublicKeyJwk),
+    toArrayBuffer(base64ToBytes(signatureB64)),
+    toArrayBuffer(envelopeSigningPayload(roomId, unsigned))
+  );
+  if (!valid) {
+    throw new Error('Invalid envelope signature');
+  }
+
+  const wrappingKey = await envelopeWrappingKey(agreementPrivateKey, envelope.ephemeralPublicKeyJwk);
+  const rawKey = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: toArrayBuffer(base64ToBytes(envelope.ivB64)),
+      additionalData: toArrayBuffer(envelopeAAD(roomId, epoch, recipient)),
+    },
+    wrappingKey,
+    toArrayBuffer(base64ToBytes(envelope.ciphertextB64))
+  );
+  return { key: await importEpochKey(new Uint8Array(rawKey)), envelope };
+}
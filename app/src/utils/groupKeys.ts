@@ -0,0 +1,215 @@
+// Group key state for rooms that encrypt under member-agreed epoch keys.
+//
+// The passphrase bootstraps membership: a member card must decrypt under a
+// passphrase key to count. Messages are encrypted under the latest epoch key,
+// which is rotated whenever someone joins the roster or is removed, so newcomers
+// can't read earlier epochs and removed members can't read later ones. Anyone with
+// the passphrase can still register a card and be wrapped into the next epoch.
+// Superseded epoch keys are dropped after EPOCH_KEY_GRACE_MS, here and on the
+// server, so a member key that leaks later can't recover them. Epoch keys aren't
+// stored locally; they are unwrapped again from the server's envelopes on every visit.
+
+import {
+  createMemberCard,
+  encryptMemberCard,
+  decryptMemberCard,
+  verifyMemberCard,
+  generateAgreementKeypair,
+  importAgreementPrivateKeyJwk,
+  exportPublicKeyJwk,
+  generateEpochKey,
+  sealEpochKey,
+  openEpochKey,
+  signMemberProof,
+  MemberCard,
+} from './crypto';
+import { getOwnAgreementKeypair, saveOwnAgreementKeypair } from './keyStore';
+import type { GroupFrame } from './api';
+
+export interface GroupKeyState {
+  // Member cards we could verify, including removed members'
+  cards: Map<string, MemberCard>;
+  // Verified members the server still lists as active
+  roster: string[];
+  // Everyone the server lists as active, verified by us or not
+  serverRoster: Set<string>;
+  // Latest epoch on the server (0 before the first) and who it was wrapped for
+  epoch: number;
+  epochMembers: string[];
+  // Whether no one connected holds the latest epoch key
+  stranded: boolean;
+  // Epoch keys we hold, and when we first saw each one superseded
+  keys: Map<number, CryptoKey>;
+  supersededAt: Map<number, number>;
+  // Passphrase version our own card is sealed under on the server, if it has one
+  ownCardVersion: number | null;
+}
+
+// How long we keep a superseded epoch key, matching the server's envelope grace
+// window, so messages sent just before a rotation stay readable for a while
+export const EPOCH_KEY_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface OwnGroupIdentity {
+  fingerprint: string;
+  signingPrivateKey: CryptoKey;
+  signingPublicKeyJwk: JsonWebKey;
+  agreementPrivateKey: CryptoKey;
+  agreementPublicKeyJwk: JsonWebKey;
+}
+
+// Load our ECDH keypair for this room, creating it on first use. The display name
+// only picks up a keypair stored before keypairs were kept per room.
+export async function loadAgreementKeypair(
+  roomId: string,
+  displayName: string
+): Promise<{ privateKey: CryptoKey; publicKeyJwk: JsonWebKey }> {
+  const stored = await getOwnAgreementKeypair(roomId, displayName);
+  if (stored) {
+    return { privateKey: await importAgreementPrivateKeyJwk(stored.privateKeyJwk), publicKeyJwk: stored.publicKeyJwk };
+  }
+
+  const keypair = await generateAgreementKeypair();
+  const publicKeyJwk = await exportPublicKeyJwk(keypair.publicKey);
+  const privateKeyJwk = await crypto.subtle.exportKey('jwk', keypair.privateKey);
+  await saveOwnAgreementKeypair(roomId, { publicKeyJwk, privateKeyJwk });
+  return { privateKey: await importAgreementPrivateKeyJwk(privateKeyJwk), publicKeyJwk };
+}
+
+// Frame proving this socket holds our signing key, answering its challenge
+export async function createMemberProofFrame(own: OwnGroupIdentity, roomId: string, challenge: string): Promise<string> {
+  const proofB64 = await signMemberProof(own.signingPrivateKey, roomId, challenge);
+  return JSON.stringify({
+    type: 'member_proof',
+    keyFingerprint: own.fingerprint,
+    publicKeyJwk: own.signingPublicKeyJwk,
+    proofB64,
+  });
+}
+
+// Frame registering our member card under the current passphrase key
+export async function createMemberFrame(
+  own: OwnGroupIdentity,
+  roomId: string,
+  version: number,
+  passphraseKey: CryptoKey
+): Promise<string> {
+  const card = await createMemberCard(own.signingPrivateKey, own.signingPublicKeyJwk, own.agreementPublicKeyJwk, roomId);
+  const { ivB64, ciphertextB64 } = await encryptMemberCard(passphraseKey, roomId, version, own.fingerprint, card);
+  return JSON.stringify({ type: 'member', keyFingerprint: own.fingerprint, version, ivB64, ciphertextB64 });
+}
+
+// Fold a group frame into the state: verify the cards we hold a passphrase key
+// for, and unwrap any envelopes we don't have the key of yet. Cards and envelopes
+// that don't check out are left out.
+export async function applyGroupFrame(
+  prev: GroupKeyState | null,
+  frame: GroupFrame,
+  options: { roomId: string; own: OwnGroupIdentity; passphraseKeys: Map<number, CryptoKey> }
+): Promise<GroupKeyState> {
+  const { roomId, own, passphraseKeys } = options;
+
+  const cards = new Map<string, MemberCard>();
+  await Promise.all(
+    frame.members.map(async (sealed) => {
+      const key = passphraseKeys.get(sealed.version);
+      if (!key) return;
+      try {
+        const card = await decryptMemberCard(
+          key,
+          roomId,
+          sealed.version,
+          sealed.keyFingerprint,
+          sealed.ivB64,
+          sealed.ciphertextB64
+        );
+        if (await verifyMemberCard(card, roomId, sealed.keyFingerprint)) {
+          cards.set(sealed.keyFingerprint, card);
+        }
+      } catch {
+        // Sealed under a key we don't hold the right passphrase for
+      }
+    })
+  );
+
+  const keys = new Map(prev?.keys);
+  let epochMembers = frame.epoch === prev?.epoch ? prev.epochMembers : frame.epochMembers;
+  for (const { epoch, envelope } of frame.envelopes) {
+    if (keys.has(epoch)) continue;
+    try {
+      const opened = await openEpochKey(envelope, {
+        roomId,
+        epoch,
+        recipient: own.fingerprint,
+        agreementPrivateKey: own.agreementPrivateKey,
+        senderCard: (fingerprint) => cards.get(fingerprint),
+      });
+      keys.set(epoch, opened.key);
+      // Trust the signed member list over the server's for the latest epoch
+      if (epoch === frame.epoch) epochMembers = opened.envelope.members;
+    } catch (err) {
+      console.error(`Failed to open group key for epoch ${epoch}:`, err);
+    }
+  }
+
+  // Drop epoch keys superseded for longer than the grace window
+  const now = Date.now();
+  const supersededAt = new Map(prev?.supersededAt);
+  for (const epoch of Array.from(keys.keys())) {
+    if (epoch >= frame.epoch) continue;
+    const since = supersededAt.get(epoch) ?? now;
+    supersededAt.set(epoch, since);
+    if (now - since > EPOCH_KEY_GRACE_MS) {
+      keys.delete(epoch);
+    }
+  }
+
+  const active = frame.members.filter((m) => !m.removed);
+  const ownCard = frame.members.find((m) => m.keyFingerprint === own.fingerprint && !m.removed);
+  return {
+    cards,
+    roster: active.map((m) => m.keyFingerprint).filter((fingerprint) => cards.has(fingerprint)),
+    serverRoster: new Set(active.map((m) => m.keyFingerprint)),
+    epoch: frame.epoch,
+    epochMembers,
+    stranded: frame.stranded === true,
+    keys,
+    supersededAt,
+    ownCardVersion: ownCard ? ownCard.version : null,
+  };
+}
+
+// The latest epoch key, if we hold it
+export function currentEpochKey(state: GroupKeyState | null): { epoch: number; key: CryptoKey } | null {
+  const key = state?.keys.get(state.epoch);
+  return state && key ? { epoch: state.epoch, key } : null;
+}
+
+// Whether we should start the next epoch: anyone on the roster starts the first,
+// and the next one while no one connected holds the latest key; otherwise members
+// of the latest epoch rotate when a verified member is missing from it or one of
+// its members has left the server's roster. Members the server lists but we can't
+// verify don't count as missing, so members with different passphrase versions
+// don't take turns undoing each other's rotations.
+export function needsRotation(state: GroupKeyState, ownFingerprint: string): boolean {
+  if (!state.roster.includes(ownFingerprint)) return false;
+  if (state.epoch === 0) return true;
+  if (!state.keys.has(state.epoch)) return state.stranded;
+  return (
+    state.roster.some((fingerprint) => !state.epochMembers.includes(fingerprint)) ||
+    state.epochMembers.some((fingerprint) => !state.serverRoster.has(fingerprint))
+  );
+}
+
+// Frame proposing the next epoch with a fresh key wrapped for every verified member
+export async function createEpochFrame(state: GroupKeyState, own: OwnGroupIdentity, roomId: string): Promise<string> {
+  const members = new Map(state.roster.map((fingerprint) => [fingerprint, state.cards.get(fingerprint) as MemberCard]));
+  const epoch = state.epoch + 1;
+  const envelopes = await sealEpochKey(generateEpochKey(), {
+    roomId,
+    epoch,
+    sender: own.fingerprint,
+    signingPrivateKey: own.signingPrivateKey,
+    members,
+  });
+  return JSON.stringify({ type: 'epoch', keyFingerprint: own.fingerprint, epoch, envelopes });
+}
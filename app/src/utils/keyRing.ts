@@ -0,0 +1,201 @@
+// Per-room passphrase key ring, persisted in localStorage under "recipe:<roomId>".
+//
+// Each passphrase rotation bumps the room's key version. We keep the passphrase
+// (and the salt/KDF params it was used with) for every version we've joined with,
+// so messages encrypted before a rotation stay readable.
+
+import {
+  deriveRoomKey,
+  deriveRoomSecrets,
+  kdfFieldsOf,
+  KdfFields,
+  verifyKeyCheck,
+  createAuthProof,
+  decryptRoomMetadata,
+  RoomSecrets,
+  RoomMetadata,
+} from './crypto';
+import { getRoom, checkRoomProof, RoomInfo, EncryptedRoomMeta } from './api';
+
+const KEY_PREFIX = 'recipe:';
+
+export interface KeyRingEntry extends Partial<KdfFields> {
+  passphrase: string;
+  saltB64?: string;
+}
+
+export interface RoomCredentials {
+  // Latest passphrase and its version (the original single-key format)
+  passphrase: string;
+  version: number;
+  // Passphrase per key version, keyed by version number
+  keyRing?: Record<string, KeyRingEntry>;
+  // Lets this browser open sessions once the room has invites (see room-auth.ts)
+  memberPass?: string;
+}
+
+export function getRoomCredentials(roomId: string): RoomCredentials | null {
+  // Check localStorage, fall back to sessionStorage for migration
+  const raw = localStorage.getItem(KEY_PREFIX + roomId) || sessionStorage.getItem(KEY_PREFIX + roomId);
+  if (!raw) return null;
+
+  // Migrate sessionStorage to localStorage if needed
+  if (!localStorage.getItem(KEY_PREFIX + roomId)) {
+    localStorage.setItem(KEY_PREFIX + roomId, raw);
+  }
+
+  try {
+    return JSON.parse(raw) as RoomCredentials;
+  } catch {
+    return null;
+  }
+}
+
+export function hasRoomCredentials(roomId: string): boolean {
+  return getRoomCredentials(roomId) !== null;
+}
+
+// Add a passphrase for a key version, keeping passphrases for other versions
+export function saveRoomPassphrase(
+  roomId: string,
+  version: number,
+  passphrase: string,
+  params?: { saltB64: string } & KdfFields
+): void {
+  const existing = getRoomCredentials(roomId);
+  const keyRing = existing ? keyRingOf(existing) : {};
+  keyRing[version] = { passphrase, ...params };
+
+  const latest = existing && existing.version > version ? existing : { passphrase, version };
+  localStorage.setItem(
+    KEY_PREFIX + roomId,
+    JSON.stringify({ ...latest, keyRing, memberPass: existing?.memberPass } satisfies RoomCredentials)
+  );
+}
+
+// Keep the member pass from an invite or a session alongside the passphrases
+export function saveMemberPass(roomId: string, memberPass: string): void {
+  const existing = getRoomCredentials(roomId);
+  if (!existing) return;
+  localStorage.setItem(KEY_PREFIX + roomId, JSON.stringify({ ...existing, memberPass } satisfies RoomCredentials));
+}
+
+// Entries written before the key ring existed only carry one passphrase and version
+function keyRingOf(credentials: RoomCredentials): Record<string, KeyRingEntry> {
+  return {
+    [credentials.version]: { passphrase: credentials.passphrase },
+    ...credentials.keyRing,
+  };
+}
+
+// Salt and KDF params of a key ring entry, if it has been stored with them
+function entryParams(entry: KeyRingEntry): ({ saltB64: string } & KdfFields) | null {
+  const { saltB64, kdfIters } = entry;
+  if (!saltB64 || !kdfIters) return null;
+  return { saltB64, ...kdfFieldsOf({ ...entry, kdfIters }) };
+}
+
+// Derive the AES key and auth key for every version we hold a passphrase for. Salt
+// and KDF params come from the server when it still has them, else from the local ring.
+// Argon2id derivations take a moment each, so callers can show `onProgress`.
+export async function deriveRoomKeys(
+  roomId: string,
+  credentials: RoomCredentials,
+  room: RoomInfo,
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<number, RoomSecrets>> {
+  const keyRing = keyRingOf(credentials);
+  const keys = new Map<number, RoomSecrets>();
+  const entries = Object.entries(keyRing);
+  let done = 0;
+  onProgress?.(done, entries.length);
+
+  await Promise.all(
+    entries.map(async ([versionStr, entry]) => {
+      const version = Number(versionStr);
+      const serverParams = room.keys?.find((k) => k.version === version) || (room.version === version ? room : undefined);
+      const params = serverParams
+        ? { saltB64: serverParams.saltB64, ...kdfFieldsOf(serverParams) }
+        : entryParams(entry);
+      if (params) {
+        keys.set(version, await deriveRoomSecrets(entry.passphrase, params.saltB64, params));
+        keyRing[versionStr] = { ...entry, ...params };
+      }
+      onProgress?.(++done, entries.length);
+    })
+  );
+
+  // Remember the salts locally so older versions survive even if the server forgets them
+  localStorage.setItem(
+    KEY_PREFIX + roomId,
+    JSON.stringify({ ...credentials, keyRing } satisfies RoomCredentials)
+  );
+
+  return keys;
+}
+
+// Check a passphrase against the current version: by answering an auth challenge
+// where the version has an auth key, else by its key check. Rooms created before
+// key checks existed have neither, so any passphrase is accepted for them.
+// Returns false for a wrong passphrase, and any member pass the check earned.
+async function verifyRoomPassphrase(
+  room: RoomInfo,
+  passphrase: string
+): Promise<{ memberPass?: string } | false> {
+  if (room.authRequired) {
+    const { authKeyB64 } = await deriveRoomSecrets(passphrase, room.saltB64, room);
+    return checkRoomProof(
+      room.roomId,
+      (version, nonce) => createAuthProof(authKeyB64, room.roomId, version, nonce),
+      getRoomCredentials(room.roomId)?.memberPass
+    );
+  }
+  if (!room.keyCheck) return {};
+  const key = await deriveRoomKey(passphrase, room.saltB64, room);
+  return (await verifyKeyCheck(key, room.roomId, room.saltB64, room.keyCheck)) ? {} : false;
+}
+
+// Fetch a room and verify the passphrase opens its current key version.
+// A mismatch is retried once against uncached room info, in case the cached
+// copy predates a rotation. Returns null when the passphrase is wrong, and the
+// room with any member pass the check earned, to keep once the passphrase is saved.
+export async function getRoomForPassphrase(
+  roomId: string,
+  passphrase: string
+): Promise<(RoomInfo & { memberPass?: string }) | null> {
+  const room = await getRoom(roomId);
+  const checked = await verifyRoomPassphrase(room, passphrase);
+  if (checked) return { ...room, ...checked };
+
+  const fresh = await getRoom(roomId, { fresh: true });
+  const rechecked = await verifyRoomPassphrase(fresh, passphrase);
+  return rechecked ? { ...fresh, ...rechecked } : null;
+}
+
+// Decrypt room metadata with whichever key we hold for its version. Rooms from
+// before encrypted metadata only have a plaintext title. Returns null when the
+// metadata is encrypted under a version we have no passphrase for.
+export async function readRoomMetadata(
+  room: { roomId: string; title: string | null; meta?: EncryptedRoomMeta | null },
+  keys?: Map<number, CryptoKey>
+): Promise<RoomMetadata | null> {
+  const { meta } = room;
+  if (!meta) return room.title ? { title: room.title } : {};
+
+  let key = keys?.get(meta.version);
+  if (!key) {
+    const credentials = getRoomCredentials(room.roomId);
+    const entry = credentials && keyRingOf(credentials)[meta.version];
+    if (!entry) return null;
+
+    const params = entryParams(entry) || (await getRoom(room.roomId)).keys?.find((k) => k.version === meta.version);
+    if (!params) return null;
+    key = await deriveRoomKey(entry.passphrase, params.saltB64, params);
+  }
+
+  try {
+    return await decryptRoomMetadata(key, room.roomId, meta.version, meta.ivB64, meta.ciphertextB64);
+  } catch {
+    return null;
+  }
+}
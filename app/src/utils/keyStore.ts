@@ -1,22 +1,41 @@
 // IndexedDB-backed key store for ECDSA signing keys (TOFU trust model)
 //
 // Stores:
-//   - Own signing keypair per room+displayName
-//   - Known public keys for other users (trust store)
+//   - Own device identity keypair, shared by every room
+//   - Own signing keypair per room, certified by the device identity
+//   - Own ECDH keypair per room, for rooms with group keys
+//   - Known identities of other users (trust store), by identity fingerprint
+//   - Known public keys by room+displayName, from before identities (read only)
 
 const DB_NAME = 'RecipeBoxKeys';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
+const IDENTITY_STORE = 'identity';
 const OWN_KEYS_STORE = 'ownKeys';
+const AGREEMENT_KEYS_STORE = 'agreementKeys';
+const IDENTITY_TRUST_STORE = 'trustedIdentities';
 const TRUST_STORE = 'trustedKeys';
 
+const DEVICE_IDENTITY_KEY = 'device';
+
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     request.onupgradeneeded = () => {
       const db = request.result;
+      if (!db.objectStoreNames.contains(IDENTITY_STORE)) {
+        db.createObjectStore(IDENTITY_STORE);
+      }
       if (!db.objectStoreNames.contains(OWN_KEYS_STORE)) {
         db.createObjectStore(OWN_KEYS_STORE);
       }
+      if (!db.objectStoreNames.contains(AGREEMENT_KEYS_STORE)) {
+        db.createObjectStore(AGREEMENT_KEYS_STORE);
+      }
+      if (!db.objectStoreNames.contains(IDENTITY_TRUST_STORE)) {
+        const store = db.createObjectStore(IDENTITY_TRUST_STORE);
+        store.createIndex('names', 'names', { multiEntry: true });
+        store.createIndex('roomKeys', 'roomKeys', { multiEntry: true });
+      }
       if (!db.objectStoreNames.contains(TRUST_STORE)) {
         db.createObjectStore(TRUST_STORE);
       }
@@ -52,59 +71,174 @@ function idbPut(storeName: string, key: string, value: unknown): Promise<void> {
   );
 }
 
-// Own keypair storage: keyed by "roomId:displayName"
+// Every value of an index entry, with its primary key
+function idbGetAllByIndex<T>(
+  storeName: string,
+  indexName: string,
+  value: string
+): Promise<{ key: string; value: T }[]> {
+  return openDB().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readonly');
+        const req = tx.objectStore(storeName).index(indexName).openCursor(IDBKeyRange.only(value));
+        const results: { key: string; value: T }[] = [];
+        req.onsuccess = () => {
+          const cursor = req.result;
+          if (!cursor) {
+            resolve(results);
+            return;
+          }
+          results.push({ key: cursor.primaryKey as string, value: cursor.value as T });
+          cursor.continue();
+        };
+        req.onerror = () => reject(req.error);
+      })
+  );
+}
 
 export interface StoredKeypair {
   publicKeyJwk: JsonWebKey;
   privateKeyJwk: JsonWebKey;
 }
 
-function ownKeyId(roomId: string, displayName: string): string {
+// Device identity: one per browser, signing each room keypair so that trust in it
+// carries over between rooms
+
+export async function getDeviceIdentity(): Promise<StoredKeypair | undefined> {
+  return idbGet<StoredKeypair>(IDENTITY_STORE, DEVICE_IDENTITY_KEY);
+}
+
+export async function saveDeviceIdentity(keypair: StoredKeypair): Promise<void> {
+  return idbPut(IDENTITY_STORE, DEVICE_IDENTITY_KEY, keypair);
+}
+
+// Own room keypairs: one per room, keyed by roomId, so renaming keeps the same
+// key and fingerprint. Keypairs used to be kept per "roomId:displayName"; the one
+// for the current name is adopted as the room's keypair the first time it's read.
+
+function nameId(roomId: string, displayName: string): string {
   return `${roomId}:${displayName}`;
 }
 
+async function getRoomKeypair(
+  storeName: string,
+  roomId: string,
+  displayName: string
+): Promise<StoredKeypair | undefined> {
+  const stored = await idbGet<StoredKeypair>(storeName, roomId);
+  if (stored) return stored;
+
+  const legacy = await idbGet<StoredKeypair>(storeName, nameId(roomId, displayName));
+  if (legacy) await idbPut(storeName, roomId, legacy);
+  return legacy;
+}
+
 export async function getOwnKeypair(
   roomId: string,
   displayName: string
 ): Promise<StoredKeypair | undefined> {
-  return idbGet<StoredKeypair>(OWN_KEYS_STORE, ownKeyId(roomId, displayName));
+  return getRoomKeypair(OWN_KEYS_STORE, roomId, displayName);
+}
+
+export async function saveOwnKeypair(roomId: string, keypair: StoredKeypair): Promise<void> {
+  return idbPut(OWN_KEYS_STORE, roomId, keypair);
 }
 
-export async function saveOwnKeypair(
+// ECDH keypair that epoch keys are wrapped for, kept alongside the signing keypair
+
+export async function getOwnAgreementKeypair(
   roomId: string,
-  displayName: string,
-  keypair: StoredKeypair
-): Promise<void> {
-  return idbPut(OWN_KEYS_STORE, ownKeyId(roomId, displayName), keypair);
+  displayName: string
+): Promise<StoredKeypair | undefined> {
+  return getRoomKeypair(AGREEMENT_KEYS_STORE, roomId, displayName);
 }
 
-// Trust store: keyed by "roomId:displayName" -> stored public key JWK
+export async function saveOwnAgreementKeypair(roomId: string, keypair: StoredKeypair): Promise<void> {
+  return idbPut(AGREEMENT_KEYS_STORE, roomId, keypair);
+}
 
-export interface TrustedKey {
-  publicKeyJwk: JsonWebKey;
+// Trust store: keyed by identity fingerprint. Senders without a device identity
+// (older clients) are their own identity, under their room key's fingerprint.
+
+export interface TrustedIdentity {
+  identityPublicKeyJwk: JsonWebKey;
   firstSeen: number;
+  // "roomId:displayName" pairs the identity has signed as
+  names: string[];
+  // Fingerprints of room keys it has certified (or just its own, for a room key)
+  roomKeys: string[];
 }
 
-function trustKeyId(roomId: string, displayName: string): string {
-  return `${roomId}:${displayName}`;
+// Known identity that certified a room key, preferring a device identity over the
+// room key's own entry
+async function identityForRoomKey(
+  roomKeyFingerprint: string
+): Promise<{ key: string; value: TrustedIdentity } | undefined> {
+  const matches = await idbGetAllByIndex<TrustedIdentity>(IDENTITY_TRUST_STORE, 'roomKeys', roomKeyFingerprint);
+  return matches.find((m) => m.key !== roomKeyFingerprint) || matches[0];
 }
 
-export async function getTrustedKey(
-  roomId: string,
-  displayName: string
-): Promise<TrustedKey | undefined> {
-  return idbGet<TrustedKey>(TRUST_STORE, trustKeyId(roomId, displayName));
+// Check a message sender against the trust store and remember them. A sender is
+// 'verified' if their identity has been seen before, in this room or any other,
+// and 'mismatch' if another identity has already used this name in this room.
+export async function checkSenderTrust(sender: {
+  roomId: string;
+  displayName: string;
+  roomKeyJwk: JsonWebKey;
+  roomKeyFingerprint: string;
+  // Device identity that certified the room key, if the message carried one
+  identity?: { publicKeyJwk: JsonWebKey; fingerprint: string };
+}): Promise<TrustStatus> {
+  const { roomId, displayName, roomKeyJwk, roomKeyFingerprint } = sender;
+  const name = nameId(roomId, displayName);
+
+  let identityFingerprint = roomKeyFingerprint;
+  let identityJwk = roomKeyJwk;
+  if (sender.identity) {
+    identityFingerprint = sender.identity.fingerprint;
+    identityJwk = sender.identity.publicKeyJwk;
+  } else {
+    const linked = await identityForRoomKey(roomKeyFingerprint);
+    if (linked) {
+      identityFingerprint = linked.key;
+      identityJwk = linked.value.identityPublicKeyJwk;
+    }
+  }
+
+  // The same person's older, uncertified room key doesn't count as someone else
+  const sameName = await idbGetAllByIndex<TrustedIdentity>(IDENTITY_TRUST_STORE, 'names', name);
+  const impostor = sameName.some(
+    (m) => m.key !== identityFingerprint && !m.value.roomKeys.includes(roomKeyFingerprint)
+  );
+
+  const known = await idbGet<TrustedIdentity>(IDENTITY_TRUST_STORE, identityFingerprint);
+  const seenRoomKey = known !== undefined || (await identityForRoomKey(roomKeyFingerprint)) !== undefined;
+  let status: TrustStatus = impostor ? 'mismatch' : seenRoomKey ? 'verified' : 'new';
+  if (status === 'new') {
+    const legacy = await idbGet<TrustedKey>(TRUST_STORE, name);
+    if (legacy) status = jwkEqual(legacy.publicKeyJwk, roomKeyJwk) ? 'verified' : 'mismatch';
+  }
+
+  // Only remember senders that checked out, so an impostor can't claim the name
+  if (status !== 'mismatch') {
+    await idbPut(IDENTITY_TRUST_STORE, identityFingerprint, {
+      identityPublicKeyJwk: identityJwk,
+      firstSeen: known?.firstSeen ?? Date.now(),
+      names: known?.names.includes(name) ? known.names : [...(known?.names || []), name],
+      roomKeys: known?.roomKeys.includes(roomKeyFingerprint)
+        ? known.roomKeys
+        : [...(known?.roomKeys || []), roomKeyFingerprint],
+    } satisfies TrustedIdentity);
+  }
+  return status;
 }
 
-export async function saveTrustedKey(
-  roomId: string,
-  displayName: string,
-  publicKeyJwk: JsonWebKey
-): Promise<void> {
-  return idbPut(TRUST_STORE, trustKeyId(roomId, displayName), {
-    publicKeyJwk,
-    firstSeen: Date.now(),
-  } satisfies TrustedKey);
+// Trust entries from before identities, keyed by "roomId:displayName" -> room key JWK
+
+interface TrustedKey {
+  publicKeyJwk: JsonWebKey;
+  firstSeen: number;
 }
 
 // Compare two JWKs for equality (ECDSA P-256 public keys)
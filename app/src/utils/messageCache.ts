@@ -1,22 +1,41 @@
 // Persist decrypted messages in localStorage so returning members see history instantly.
 // Only stores the last N messages per room to avoid bloating storage.
 
+import type { RecipeCard } from './recipe';
+import type { AttachmentRef } from './crypto';
+
 const MAX_CACHED = 100;
 const KEY_PREFIX = 'msgCache:';
 
 export interface CachedMessage {
   msgId: string;
+  seq?: number;
   displayName: string;
   text: string;
+  recipe?: RecipeCard;
+  attachments?: AttachmentRef[];
   clientTs: number;
   createdAt: string;
+  edited?: boolean;
+  deleted?: boolean;
+  expiresAt?: string;
+}
+
+export function isExpired(msg: { expiresAt?: string }, now = Date.now()): boolean {
+  return !!msg.expiresAt && Date.parse(msg.expiresAt) <= now;
 }
 
 export function getCachedMessages(roomId: string): CachedMessage[] {
   try {
     const raw = localStorage.getItem(KEY_PREFIX + roomId);
     if (!raw) return [];
-    return JSON.parse(raw) as CachedMessage[];
+    const messages = JSON.parse(raw) as CachedMessage[];
+    // Disappearing messages leave the cache once expired, even if we never heard from the server
+    const live = messages.filter((m) => !isExpired(m));
+    if (live.length !== messages.length) {
+      setCachedMessages(roomId, live);
+    }
+    return live;
   } catch {
     return [];
   }
@@ -39,3 +58,23 @@ export function appendCachedMessage(roomId: string, msg: CachedMessage): void {
   existing.push(msg);
   setCachedMessages(roomId, existing);
 }
+
+export function updateCachedMessage(
+  roomId: string,
+  msgId: string,
+  update: Partial<CachedMessage>
+): void {
+  const existing = getCachedMessages(roomId);
+  const index = existing.findIndex((m) => m.msgId === msgId);
+  if (index === -1) return;
+  existing[index] = { ...existing[index], ...update };
+  setCachedMessages(roomId, existing);
+}
+
+export function removeCachedMessages(roomId: string, msgIds: string[]): void {
+  const existing = getCachedMessages(roomId);
+  const remaining = existing.filter((m) => !msgIds.includes(m.msgId));
+  if (remaining.length !== existing.length) {
+    setCachedMessages(roomId, remaining);
+  }
+}
@@ -0,0 +1,94 @@
+// IndexedDB-backed outbox for messages the server hasn't acknowledged yet.
+//
+// Each entry holds the encrypted frame exactly as it goes over the WebSocket,
+// so it can be resent after a reconnect or page reload without re-encrypting,
+// plus the decrypted copy shown in the message list meanwhile.
+
+import type { CachedMessage } from './messageCache';
+
+const DB_NAME = 'RecipeBoxOutbox';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  msgId: string;
+  roomId: string;
+  // Serialized WebSocket frame
+  frame: string;
+  message: CachedMessage;
+  senderPublicKeyJwk?: JsonWebKey;
+  status: OutboxStatus;
+  attempts: number;
+  // Reason from the last nack, for failed entries
+  error?: string;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'msgId' });
+        store.createIndex('roomId', 'roomId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDB().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(OUTBOX_STORE, mode);
+        const req = run(tx.objectStore(OUTBOX_STORE));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      })
+  );
+}
+
+// Unacknowledged messages for a room, oldest first
+export async function getOutbox(roomId: string): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', (store) =>
+    store.index('roomId').getAll(roomId)
+  );
+  return entries.sort((a, b) => a.message.clientTs - b.message.clientTs);
+}
+
+export async function getOutboxEntry(msgId: string): Promise<OutboxEntry | undefined> {
+  return withStore<OutboxEntry | undefined>('readonly', (store) => store.get(msgId));
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+export async function updateOutboxEntry(msgId: string, update: Partial<OutboxEntry>): Promise<OutboxEntry | undefined> {
+  const entry = await getOutboxEntry(msgId);
+  if (!entry) return undefined;
+  const updated = { ...entry, ...update };
+  await putOutboxEntry(updated);
+  return updated;
+}
+
+export async function removeOutboxEntry(msgId: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(msgId));
+}
+
+// Drop entries the server turned out to have stored (seen in history after a lost ack)
+export async function removeOutboxEntries(msgIds: string[]): Promise<void> {
+  if (msgIds.length === 0) return;
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    const store = tx.objectStore(OUTBOX_STORE);
+    msgIds.forEach((msgId) => store.delete(msgId));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,72 @@
+// Offline density table for common pantry items, in grams per US cup (236.6 ml).
+// Used to convert volume measures to weight and back. Values are typical for
+// spooned-and-leveled dry goods; good enough for home cooking, not for lab work.
+
+const GRAMS_PER_CUP: Record<string, number> = {
+  'flour': 125,
+  'all-purpose flour': 125,
+  'bread flour': 130,
+  'whole wheat flour': 120,
+  'cake flour': 115,
+  'almond flour': 96,
+  'cornmeal': 150,
+  'cornstarch': 128,
+  'sugar': 200,
+  'granulated sugar': 200,
+  'caster sugar': 225,
+  'brown sugar': 220,
+  'powdered sugar': 120,
+  'icing sugar': 120,
+  'honey': 340,
+  'maple syrup': 315,
+  'molasses': 340,
+  'butter': 227,
+  'oil': 218,
+  'olive oil': 216,
+  'vegetable oil': 218,
+  'water': 237,
+  'milk': 245,
+  'buttermilk': 245,
+  'cream': 240,
+  'heavy cream': 240,
+  'yogurt': 245,
+  'sour cream': 230,
+  'salt': 292,
+  'kosher salt': 240,
+  'baking soda': 220,
+  'baking powder': 192,
+  'cocoa powder': 85,
+  'cocoa': 85,
+  'rolled oats': 90,
+  'oats': 90,
+  'rice': 185,
+  'chocolate chips': 170,
+  'raisins': 150,
+  'walnuts': 120,
+  'almonds': 143,
+  'peanut butter': 258,
+  'grated parmesan': 100,
+};
+
+// Measured by volume in metric kitchens too, so only weight -> volume applies
+const LIQUIDS = new Set([
+  'oil', 'olive oil', 'vegetable oil', 'water', 'milk', 'buttermilk', 'cream', 'heavy cream', 'maple syrup',
+]);
+
+export interface PantryItem {
+  gramsPerCup: number;
+  liquid: boolean;
+}
+
+// Look up an ingredient name. The longest table entry found as whole words in
+// the name wins, so "light brown sugar" matches "brown sugar".
+export function lookupPantryItem(name: string): PantryItem | undefined {
+  const normalized = ` ${name.toLowerCase().replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+  let best: string | undefined;
+  for (const item of Object.keys(GRAMS_PER_CUP)) {
+    if (normalized.includes(` ${item} `) && (!best || item.length > best.length)) {
+      best = item;
+    }
+  }
+  return best ? { gramsPerCup: GRAMS_PER_CUP[best], liquid: LIQUIDS.has(best) } : undefined;
+}
@@ -0,0 +1,306 @@
+// Structured recipe cards, sent as the `recipe` kind of MessagePayload.
+// Everything here runs on decrypted content; the server never sees it.
+
+import { lookupPantryItem } from './pantry';
+
+export interface RecipeIngredient {
+  name: string;
+  // Absent for "salt to taste" style ingredients
+  quantity?: number;
+  // Upper bound for ranges like "2-3 eggs"
+  quantityMax?: number;
+  // Canonical unit name (see UNIT_ALIASES)
+  unit?: string;
+}
+
+export interface RecipeCard {
+  title: string;
+  servings?: number;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+  prepMinutes?: number;
+  cookMinutes?: number;
+  notes?: string;
+}
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_INGREDIENTS = 100;
+const MAX_STEPS = 100;
+const MAX_LINE_LENGTH = 500;
+const MAX_NOTES_LENGTH = 4000;
+
+// Units recognized when parsing an ingredient line: lowercase spelling -> canonical unit
+const UNIT_ALIASES: Record<string, string> = {
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  tbsp: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cup: 'cup', cups: 'cup',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  'fl oz': 'fl oz',
+  g: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  pinch: 'pinch', pinches: 'pinch',
+  clove: 'clove', cloves: 'clove',
+  can: 'can', cans: 'can',
+};
+
+// Units that read better pluralized, e.g. "2 cups"
+const PLURAL_UNITS = new Set(['cup', 'pinch', 'clove', 'can']);
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '¼': '1/4', '½': '1/2', '¾': '3/4', '⅓': '1/3', '⅔': '2/3', '⅛': '1/8',
+};
+
+function cleanText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim().slice(0, maxLength);
+  return trimmed || undefined;
+}
+
+function cleanNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Validate a decrypted recipe. Payloads come from other members, so anything
+// malformed is dropped rather than rendered. Returns null without a title.
+export function parseRecipeCard(value: unknown): RecipeCard | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+
+  const title = cleanText(raw.title, MAX_TITLE_LENGTH);
+  if (!title) return null;
+
+  const ingredients = (Array.isArray(raw.ingredients) ? raw.ingredients : [])
+    .slice(0, MAX_INGREDIENTS)
+    .flatMap((item): RecipeIngredient[] => {
+      const ingredient = (item || {}) as Record<string, unknown>;
+      const name = cleanText(ingredient.name, MAX_LINE_LENGTH);
+      if (!name) return [];
+      const quantity = cleanNumber(ingredient.quantity);
+      const quantityMax = cleanNumber(ingredient.quantityMax);
+      return [{
+        name,
+        quantity,
+        quantityMax: quantity !== undefined && quantityMax !== undefined && quantityMax > quantity ? quantityMax : undefined,
+        unit: cleanText(ingredient.unit, 20),
+      }];
+    });
+
+  const steps = (Array.isArray(raw.steps) ? raw.steps : [])
+    .slice(0, MAX_STEPS)
+    .flatMap((step) => {
+      const text = cleanText(step, MAX_LINE_LENGTH);
+      return text ? [text] : [];
+    });
+
+  return {
+    title,
+    servings: cleanNumber(raw.servings),
+    ingredients,
+    steps,
+    prepMinutes: cleanNumber(raw.prepMinutes),
+    cookMinutes: cleanNumber(raw.cookMinutes),
+    notes: cleanText(raw.notes, MAX_NOTES_LENGTH),
+  };
+}
+
+// Parse a quantity like "2", "1.5", "1/2" or "1 1/2". Zero, and fractions over
+// zero like "1/0", aren't quantities.
+function parseQuantity(value: string): number | undefined {
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  let quantity = Number(value.replace(',', '.'));
+  if (mixed) quantity = Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  else if (fraction) quantity = Number(fraction[1]) / Number(fraction[2]);
+  return Number.isFinite(quantity) && quantity > 0 ? quantity : undefined;
+}
+
+const QUANTITY_PATTERN = '\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?';
+const INGREDIENT_LINE = new RegExp(
+  `^(${QUANTITY_PATTERN})(?:\\s*(?:-|–|to)\\s*(${QUANTITY_PATTERN}))?\\s+(.*)$`,
+  'i'
+);
+
+// Parse one composer line such as "2 cups flour", "1 1/2 tsp salt", "½ cup milk",
+// "2-3 eggs" or "2 to 3 tbsp oil". Lines without a leading quantity are kept as a name.
+export function parseIngredientLine(line: string): RecipeIngredient | null {
+  const trimmed = line
+    .trim()
+    // "1½" and "1 ½" become "1 1/2"
+    .replace(/(\d)?\s*([¼½¾⅓⅔⅛])/g, (_, whole: string | undefined, fraction: string) =>
+      `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`
+    );
+  if (!trimmed) return null;
+
+  const match = trimmed.match(INGREDIENT_LINE);
+  if (!match) return { name: trimmed };
+
+  // Keep a line with an unusable quantity as written, so it isn't scaled
+  const quantity = parseQuantity(match[1]);
+  if (quantity === undefined) return { name: trimmed };
+  const quantityMax = match[2] ? parseQuantity(match[2]) : undefined;
+  let rest = match[3];
+  let unit: string | undefined;
+
+  const unitMatch = rest.match(/^(fl\.? oz|[a-zA-Z]+)\.?\s+(.+)$/);
+  const alias = unitMatch && UNIT_ALIASES[unitMatch[1].toLowerCase().replace('.', '')];
+  if (unitMatch && alias) {
+    unit = alias;
+    rest = unitMatch[2];
+  }
+
+  return {
+    name: rest,
+    quantity,
+    quantityMax: quantity !== undefined && quantityMax !== undefined && quantityMax > quantity ? quantityMax : undefined,
+    unit,
+  };
+}
+
+// Render a quantity with common fractions where they read better than decimals
+export function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  const fractions: [number, string][] = [[1 / 4, '¼'], [1 / 3, '⅓'], [1 / 2, '½'], [2 / 3, '⅔'], [3 / 4, '¾']];
+  const match = fractions.find(([value]) => Math.abs(fraction - value) < 0.02);
+
+  if (fraction < 0.02) return String(whole);
+  if (match) return whole > 0 ? `${whole} ${match[1]}` : match[1];
+  return String(Math.round(quantity * 100) / 100);
+}
+
+export function formatIngredient(ingredient: RecipeIngredient): string {
+  const { quantity, quantityMax, unit } = ingredient;
+  const amount =
+    quantity === undefined
+      ? null
+      : quantityMax !== undefined
+      ? `${formatQuantity(quantity)}–${formatQuantity(quantityMax)}`
+      : formatQuantity(quantity);
+  const plural = unit && PLURAL_UNITS.has(unit) && (quantityMax ?? quantity ?? 0) > 1;
+  const parts = [amount, unit ? (plural ? `${unit}s` : unit) : null, ingredient.name];
+  return parts.filter(Boolean).join(' ');
+}
+
+// --- Scaling and unit conversion ---
+
+// Multiply every quantity so the recipe makes `servings` servings. Recipes
+// without a servings count are returned unchanged.
+export function scaleRecipe(recipe: RecipeCard, servings: number): RecipeCard {
+  if (!recipe.servings || !(servings > 0) || servings === recipe.servings) return recipe;
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ingredient) => ({
+      ...ingredient,
+      quantity: ingredient.quantity !== undefined ? ingredient.quantity * factor : undefined,
+      quantityMax: ingredient.quantityMax !== undefined ? ingredient.quantityMax * factor : undefined,
+    })),
+  };
+}
+
+export type UnitSystem = 'metric' | 'imperial';
+
+const ML_PER_CUP = 236.588;
+
+// Millilitres per volume unit and grams per weight unit
+const VOLUME_ML: Record<string, number> = { tsp: 4.92892, tbsp: 14.7868, cup: ML_PER_CUP, 'fl oz': 29.5735, ml: 1, l: 1000 };
+const WEIGHT_G: Record<string, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+
+const METRIC_UNITS = new Set(['ml', 'l', 'g', 'kg']);
+const IMPERIAL_UNITS = new Set(['cup', 'fl oz', 'oz', 'lb']);
+
+// Round to what a kitchen scale or measuring set can actually measure
+function tidyQuantity(quantity: number, unit: string): number {
+  switch (unit) {
+    case 'g':
+    case 'ml':
+      return quantity < 100 ? Math.round(quantity) : Math.round(quantity / 5) * 5;
+    case 'kg':
+    case 'l':
+      return Math.round(quantity * 100) / 100;
+    default:
+      return Math.round(quantity * 4) / 4 || quantity;
+  }
+}
+
+// Pick a readable unit for an amount in millilitres or grams
+function metricVolume(ml: number): [number, string] {
+  return ml >= 1000 ? [ml / 1000, 'l'] : [ml, 'ml'];
+}
+
+function metricWeight(g: number): [number, string] {
+  return g >= 1000 ? [g / 1000, 'kg'] : [g, 'g'];
+}
+
+function imperialVolume(ml: number): [number, string] {
+  if (ml < VOLUME_ML.tbsp) return [ml / VOLUME_ML.tsp, 'tsp'];
+  if (ml < ML_PER_CUP / 4) return [ml / VOLUME_ML.tbsp, 'tbsp'];
+  return [ml / ML_PER_CUP, 'cup'];
+}
+
+function imperialWeight(g: number): [number, string] {
+  return g >= WEIGHT_G.lb ? [g / WEIGHT_G.lb, 'lb'] : [g / WEIGHT_G.oz, 'oz'];
+}
+
+// Convert one ingredient to the given system. Volumes of dry pantry items with a
+// known density become weights in metric, and weights become cups in imperial.
+// Teaspoons and tablespoons are standard in both systems and are left alone,
+// as are units with no conversion (pinch, clove, can) and unitless amounts.
+export function convertIngredient(ingredient: RecipeIngredient, system: UnitSystem): RecipeIngredient {
+  const { quantity, unit } = ingredient;
+  if (quantity === undefined || !unit || unit === 'tsp' || unit === 'tbsp') return ingredient;
+  if ((system === 'metric' ? METRIC_UNITS : IMPERIAL_UNITS).has(unit)) return ingredient;
+
+  const mlPerUnit = VOLUME_ML[unit];
+  const gPerUnit = WEIGHT_G[unit];
+  if (mlPerUnit === undefined && gPerUnit === undefined) return ingredient;
+
+  const pantryItem = lookupPantryItem(ingredient.name);
+  const density = pantryItem?.gramsPerCup;
+  // Target unit and how many of it one source unit makes
+  let target: [number, string];
+  if (system === 'metric') {
+    target =
+      mlPerUnit !== undefined
+        ? density && !pantryItem.liquid
+          ? metricWeight((quantity * mlPerUnit * density) / ML_PER_CUP)
+          : metricVolume(quantity * mlPerUnit)
+        : metricWeight(quantity * gPerUnit);
+  } else {
+    target =
+      gPerUnit !== undefined
+        ? density
+          ? imperialVolume((quantity * gPerUnit * ML_PER_CUP) / density)
+          : imperialWeight(quantity * gPerUnit)
+        : imperialVolume(quantity * mlPerUnit);
+  }
+
+  const [converted, targetUnit] = target;
+  const factor = converted / quantity;
+  return {
+    ...ingredient,
+    quantity: tidyQuantity(converted, targetUnit),
+    quantityMax:
+      ingredient.quantityMax !== undefined ? tidyQuantity(ingredient.quantityMax * factor, targetUnit) : undefined,
+    unit: targetUnit,
+  };
+}
+
+export function convertRecipe(recipe: RecipeCard, system: UnitSystem): RecipeCard {
+  return { ...recipe, ingredients: recipe.ingredients.map((ingredient) => convertIngredient(ingredient, system)) };
+}
+
+// Plain-text rendering, sent as the payload `text` so clients without recipe
+// card support still have something to show
+export function recipeSummary(recipe: RecipeCard): string {
+  const lines = [`Recipe: ${recipe.title}`];
+  if (recipe.servings) lines.push(`Serves ${recipe.servings}`);
+  lines.push(...recipe.ingredients.map((ingredient) => `- ${formatIngredient(ingredient)}`));
+  lines.push(...recipe.steps.map((step, i) => `${i + 1}. ${step}`));
+  if (recipe.notes) lines.push(recipe.notes);
+  return lines.join('\n');
+}
@@ -0,0 +1,15 @@
+-- Edits and deletions of existing messages. Each row is an encrypted, signed
+-- revision that clients verify against the original sender's key before applying.
+CREATE TABLE IF NOT EXISTS message_revisions (
+  room_id TEXT NOT NULL,
+  rev_id TEXT NOT NULL,
+  msg_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('edit', 'delete')),
+  version INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  iv_b64 TEXT NOT NULL,
+  ciphertext_b64 TEXT NOT NULL,
+  PRIMARY KEY (room_id, rev_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_room_msg ON message_revisions(room_id, msg_id, created_at);
@@ -0,0 +1,13 @@
+-- Per-room sequence numbers assigned by the RecipeRoom Durable Object.
+-- Clients use them to detect gaps and backfill after reconnecting.
+ALTER TABLE messages ADD COLUMN seq INTEGER;
+
+-- Backfill existing rows in (created_at, msg_id) order
+UPDATE messages SET seq = (
+  SELECT COUNT(*) FROM messages m2
+  WHERE m2.room_id = messages.room_id
+    AND (m2.created_at < messages.created_at
+      OR (m2.created_at = messages.created_at AND m2.msg_id <= messages.msg_id))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_room_seq ON messages(room_id, seq);
@@ -0,0 +1,16 @@
+-- Salt and KDF parameters for every key version of a room, so members holding
+-- an older passphrase can still derive the key for messages sent under it.
+-- rooms.salt_b64 / rooms.kdf_iters keep mirroring the current version.
+CREATE TABLE IF NOT EXISTS room_keys (
+  room_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  salt_b64 TEXT NOT NULL,
+  kdf_iters INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (room_id, version)
+);
+
+-- Salts of versions rotated away before this migration were overwritten and
+-- cannot be recovered; only the current version is backfilled.
+INSERT OR IGNORE INTO room_keys (room_id, version, salt_b64, kdf_iters, created_at)
+SELECT room_id, version, salt_b64, kdf_iters, created_at FROM rooms;
@@ -0,0 +1,5 @@
+-- Key-check value per key version: an AES-GCM encryption of a fixed label under
+-- the passphrase-derived key, written by the admin client at create/rotate time.
+-- Clients decrypt it to reject a wrong passphrase before storing it.
+ALTER TABLE room_keys ADD COLUMN check_iv_b64 TEXT;
+ALTER TABLE room_keys ADD COLUMN check_ciphertext_b64 TEXT;
@@ -0,0 +1,22 @@
+-- Membership proofs: the admin client provisions a passphrase-derived auth key
+-- per key version; clients answer a one-time challenge with an HMAC under it
+-- and receive a session token for history and WebSocket access.
+ALTER TABLE room_keys ADD COLUMN auth_key_b64 TEXT;
+
+CREATE TABLE IF NOT EXISTS auth_challenges (
+  nonce TEXT PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+-- Session tokens are stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS room_sessions (
+  token_hash TEXT PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_challenges_expires ON auth_challenges(expires_at);
+CREATE INDEX IF NOT EXISTS idx_room_sessions_expires ON room_sessions(expires_at);
@@ -0,0 +1,6 @@
+-- Room metadata (title, description, tags) encrypted client-side under the room
+-- key. meta_version is the key version the ciphertext was encrypted with.
+-- rooms.title is kept for rooms created before this and cleared once encrypted.
+ALTER TABLE rooms ADD COLUMN meta_version INTEGER;
+ALTER TABLE rooms ADD COLUMN meta_iv_b64 TEXT;
+ALTER TABLE rooms ADD COLUMN meta_ciphertext_b64 TEXT;
@@ -0,0 +1,4 @@
+-- Sender names are only carried inside the encrypted payload now. Clear the
+-- plaintext copies stored with older messages; the column is kept (always NULL)
+-- so a worker from before this change can still insert during a rollout.
+UPDATE messages SET sender_name = NULL WHERE sender_name IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Per-room message retention, enforced by the room's Durable Object on an alarm.
+-- retention_mode is 'forever', 'days' (keep messages newer than retention_value
+-- days) or 'count' (keep the newest retention_value messages).
+ALTER TABLE rooms ADD COLUMN retention_mode TEXT NOT NULL DEFAULT 'forever';
+ALTER TABLE rooms ADD COLUMN retention_value INTEGER;
@@ -0,0 +1,5 @@
+-- Optional sender-chosen expiry for individual messages. The room's Durable
+-- Object deletes them once expired; history skips any it hasn't purged yet.
+ALTER TABLE messages ADD COLUMN expires_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_room_expires ON messages(room_id, expires_at) WHERE expires_at IS NOT NULL;
@@ -0,0 +1,13 @@
+-- Room-scoped admin credentials minted by a global admin. Only a SHA-256 hash
+-- of each token's secret is stored; tokens can expire and be revoked.
+CREATE TABLE IF NOT EXISTS owner_tokens (
+  token_id TEXT PRIMARY KEY,
+  secret_hash TEXT NOT NULL,
+  room_id TEXT NOT NULL,
+  label TEXT,
+  created_at TEXT NOT NULL,
+  expires_at INTEGER,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_owner_tokens_room ON owner_tokens(room_id);
@@ -0,0 +1,26 @@
+-- Append-only log of admin actions. actor is 'global' for the ADMIN_TOKEN or
+-- 'owner:<tokenId>' for owner tokens; before/after hold JSON summaries of the
+-- target's state (never secrets). Entries outlive the rooms they refer to.
+CREATE TABLE IF NOT EXISTS admin_audit (
+  audit_id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  ip TEXT,
+  action TEXT NOT NULL,
+  room_id TEXT,
+  before_json TEXT,
+  after_json TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_room ON admin_audit(room_id, audit_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_action ON admin_audit(action, audit_id);
+
+CREATE TRIGGER IF NOT EXISTS admin_audit_no_update BEFORE UPDATE ON admin_audit
+BEGIN
+  SELECT RAISE(ABORT, 'admin_audit is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS admin_audit_no_delete BEFORE DELETE ON admin_audit
+BEGIN
+  SELECT RAISE(ABORT, 'admin_audit is append-only');
+END;
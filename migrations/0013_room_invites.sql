@@ -0,0 +1,16 @@
+-- Server-issued invite tokens for join links. The passphrase stays in the link's
+-- fragment; the token makes the link expire, run out of uses, or be revoked.
+-- Only a SHA-256 hash of each token's secret is stored.
+CREATE TABLE IF NOT EXISTS room_invites (
+  invite_id TEXT PRIMARY KEY,
+  secret_hash TEXT NOT NULL,
+  room_id TEXT NOT NULL,
+  label TEXT,
+  created_at TEXT NOT NULL,
+  expires_at INTEGER,
+  max_uses INTEGER,
+  uses INTEGER NOT NULL DEFAULT 0,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_invites_room ON room_invites(room_id);
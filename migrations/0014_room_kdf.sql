@@ -0,0 +1,10 @@
+-- Key derivation function per key version. Existing rows are PBKDF2-SHA256 with
+-- kdf_iters iterations; for Argon2id, kdf_iters is the time cost and the memory
+-- (KiB) and parallelism columns are set.
+ALTER TABLE rooms ADD COLUMN kdf_alg TEXT NOT NULL DEFAULT 'pbkdf2';
+ALTER TABLE rooms ADD COLUMN kdf_memory_kib INTEGER;
+ALTER TABLE rooms ADD COLUMN kdf_parallelism INTEGER;
+
+ALTER TABLE room_keys ADD COLUMN kdf_alg TEXT NOT NULL DEFAULT 'pbkdf2';
+ALTER TABLE room_keys ADD COLUMN kdf_memory_kib INTEGER;
+ALTER TABLE room_keys ADD COLUMN kdf_parallelism INTEGER;
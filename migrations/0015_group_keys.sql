@@ -0,0 +1,7 @@
+-- Optional per-room group keys: members agree on epoch keys over ECDH instead
+-- of encrypting with the passphrase key. The room's Durable Object holds the
+-- member roster and wrapped epoch keys; D1 only records which epoch a message
+-- or revision was encrypted under (NULL for the passphrase key).
+ALTER TABLE rooms ADD COLUMN group_keys INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE messages ADD COLUMN epoch INTEGER;
+ALTER TABLE message_revisions ADD COLUMN epoch INTEGER;
@@ -0,0 +1,10 @@
+-- Member passes: issued to a browser when it redeems an invite (or, in rooms
+-- without invites, when it opens its first session), and required to open a
+-- session once a room has invites. Only a SHA-256 hash of each pass is stored.
+CREATE TABLE IF NOT EXISTS member_passes (
+  pass_hash TEXT PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_passes_room ON member_passes(room_id);
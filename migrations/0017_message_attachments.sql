@@ -0,0 +1,11 @@
+-- Attachments each message references, as declared by the sender, so their R2
+-- blobs can be deleted along with the message (expiry, retention, moderation).
+-- The first message to reference an attachment keeps it.
+CREATE TABLE IF NOT EXISTS message_attachments (
+  room_id TEXT NOT NULL,
+  attachment_id TEXT NOT NULL,
+  msg_id TEXT NOT NULL,
+  PRIMARY KEY (room_id, attachment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_msg ON message_attachments(room_id, msg_id);